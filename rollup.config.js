@@ -41,6 +41,9 @@ export default [
     external: [
       "node:fs/promises",
       "node:path",
+      "node:http",
+      "node:crypto",
+      "node:events",
       "node:url",
       "chokidar",
       "source-map",
@@ -49,6 +52,8 @@ export default [
       "readdirp",
       "glob-parent",
       "anymatch",
+      "rollup",
+      "typescript",
     ],
     plugins: [
       typescript(),
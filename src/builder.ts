@@ -0,0 +1,179 @@
+import type { RoleDeclaration } from "./declarations";
+
+/**
+ * Types, defaults, bodies and predicates are fql source code.
+ */
+export interface FieldDefinition {
+  name: string;
+  type: string;
+  default?: string;
+}
+
+export interface ComputedFieldDefinition {
+  name: string;
+  type?: string;
+
+  /**
+   * The function that computes the field, e.g. `(doc => doc.a + doc.b)`.
+   */
+  body: string;
+}
+
+export interface IndexDefinition {
+  name: string;
+  terms?: string[];
+  values?: string[];
+}
+
+export interface CollectionDefinition {
+  name: string;
+  alias?: string;
+  fields?: FieldDefinition[];
+  computedFields?: ComputedFieldDefinition[];
+  indexes?: IndexDefinition[];
+
+  /**
+   * The terms of each unique constraint.
+   */
+  unique?: string[][];
+  historyDays?: number;
+  ttlDays?: number;
+  documentTtls?: boolean;
+}
+
+export interface FunctionDefinition {
+  name: string;
+  alias?: string;
+  role?: string;
+  parameters?: Array<{ name: string; type?: string }>;
+  returnType?: string;
+
+  /**
+   * The body without the surrounding braces.
+   */
+  body: string;
+}
+
+export type RoleAction =
+  | "create"
+  | "create_with_id"
+  | "delete"
+  | "read"
+  | "write"
+  | "history_read"
+  | "history_write"
+  | "unrestricted_read"
+  | "call";
+
+/**
+ * An action, optionally only allowed when the predicate returns true.
+ */
+export type PrivilegeAction =
+  | RoleAction
+  | { action: RoleAction; predicate: string | null };
+
+function indent(str: string, prefix = "  "): string {
+  return str
+    .split("\n")
+    .map((line) => (line ? prefix + line : line))
+    .join("\n");
+}
+
+function block(header: string, members: string[]): string {
+  if (!members.length) {
+    return `${header} {}`;
+  }
+
+  return `${header} {\n${members.map((member) => indent(member)).join("\n")}\n}`;
+}
+
+function predicateBlock(header: string, predicate: string | null): string {
+  return predicate ? block(header, [`predicate ${predicate}`]) : header;
+}
+
+export function printField(field: FieldDefinition): string {
+  return field.default === undefined
+    ? `${field.name}: ${field.type}`
+    : `${field.name}: ${field.type} = ${field.default}`;
+}
+
+export function printIndex(index: IndexDefinition): string {
+  const members: string[] = [];
+  if (index.terms?.length) {
+    members.push(`terms [${index.terms.join(", ")}]`);
+  }
+  if (index.values?.length) {
+    members.push(`values [${index.values.join(", ")}]`);
+  }
+
+  return block(`index ${index.name}`, members);
+}
+
+export function printCollection(definition: CollectionDefinition): string {
+  const members = [
+    ...(definition.fields ?? []).map(printField),
+    ...(definition.computedFields ?? []).map(({ name, type, body }) =>
+      type ? `compute ${name}: ${type} = ${body}` : `compute ${name} = ${body}`,
+    ),
+    ...(definition.indexes ?? []).map(printIndex),
+    ...(definition.unique ?? []).map((terms) => `unique [${terms.join(", ")}]`),
+  ];
+  if (definition.historyDays !== undefined) {
+    members.push(`history_days ${definition.historyDays}`);
+  }
+  if (definition.ttlDays !== undefined) {
+    members.push(`ttl_days ${definition.ttlDays}`);
+  }
+  if (definition.documentTtls !== undefined) {
+    members.push(`document_ttls ${definition.documentTtls}`);
+  }
+
+  const collection = block(`collection ${definition.name}`, members);
+  return definition.alias
+    ? `@alias(${definition.alias})\n${collection}\n`
+    : `${collection}\n`;
+}
+
+export function printFunction(definition: FunctionDefinition): string {
+  const parameters = (definition.parameters ?? [])
+    .map(({ name, type }) => (type ? `${name}: ${type}` : name))
+    .join(", ");
+  const returnType = definition.returnType ? `: ${definition.returnType}` : "";
+
+  return [
+    definition.role && `@role(${definition.role})`,
+    definition.alias && `@alias(${definition.alias})`,
+    `function ${definition.name}(${parameters})${returnType} {`,
+    indent(definition.body.trim()),
+    "}",
+    "",
+  ]
+    .filter((line) => line !== undefined)
+    .join("\n");
+}
+
+export function printRole(
+  role: Pick<RoleDeclaration, "name" | "privileges" | "membership">,
+): string {
+  return `${block(`role ${role.name}`, [
+    ...role.privileges.map(({ resource, actions }) =>
+      block(
+        `privileges ${resource}`,
+        actions.map(({ action, predicate }) =>
+          predicateBlock(action, predicate),
+        ),
+      ),
+    ),
+    ...role.membership.map(({ collection, predicate }) =>
+      predicateBlock(`membership ${collection}`, predicate),
+    ),
+  ])}\n`;
+}
+
+/**
+ * Adds a member to the end of the outermost block of a declaration.
+ */
+export function insertMember(content: string, member: string): string {
+  const end = content.lastIndexOf("}");
+  return `${content.slice(0, end).trimEnd()}\n${indent(member)}\n${content.slice(end)}`;
+}
@@ -0,0 +1,201 @@
+import * as fs from "node:fs/promises";
+import * as path from "node:path";
+import { pathToFileURL } from "node:url";
+import type { OutputOptions, PushSchemaOptions } from "./lib";
+
+/**
+ * A database that the schema can be pushed to.
+ */
+export interface SchemaTarget {
+  /**
+   * Fauna endpoint, defaults to https://db.fauna.com if the key is set,
+   * otherwise http://localhost:8443.
+   */
+  endpoint?: string;
+
+  /**
+   * Name of the environment variable that holds the key. Keys should not be
+   * written into the config file itself.
+   */
+  keyEnv?: string;
+
+  retainRevisions?: number;
+}
+
+export interface SchemaToolsConfig extends OutputOptions {
+  /**
+   * Paths to schema files (globs are supported).
+   */
+  schemapaths?: string[];
+
+  /**
+   * Named push targets, e.g. `dev`, `staging` and `prod`.
+   */
+  targets?: Record<string, SchemaTarget>;
+
+  /**
+   * The target to push to when none is selected with `--target`.
+   */
+  defaultTarget?: string;
+}
+
+export interface LoadedConfig {
+  path: string;
+  config: SchemaToolsConfig;
+}
+
+/**
+ * Config filenames in order of precedence.
+ */
+export const configFilenames = [
+  "fauna-schema.config.ts",
+  "fauna-schema.config.js",
+  "fauna-schema.config.json",
+];
+
+async function findConfigFile(cwd: string): Promise<string | null> {
+  let dir = cwd;
+  for (;;) {
+    for (const filename of configFilenames) {
+      const file = path.join(dir, filename);
+      try {
+        await fs.access(file);
+        return file;
+      } catch {}
+    }
+
+    const parent = path.dirname(dir);
+    if (parent === dir) {
+      return null;
+    }
+
+    dir = parent;
+  }
+}
+
+async function importTypescriptModule(
+  file: string,
+): Promise<{ default?: unknown }> {
+  let ts: typeof import("typescript");
+  try {
+    const mod = await import("typescript");
+    ts = mod.default ?? mod;
+  } catch {
+    throw new Error(`typescript must be installed to load ${file}`);
+  }
+
+  const { outputText } = ts.transpileModule(await fs.readFile(file, "utf8"), {
+    fileName: file,
+    compilerOptions: {
+      module: ts.ModuleKind.ES2022,
+      target: ts.ScriptTarget.ES2022,
+    },
+  });
+
+  // written next to the config so that relative imports still resolve
+  const tmpfile = path.join(
+    path.dirname(file),
+    `.${path.basename(file, ".ts")}.${process.pid}.mjs`,
+  );
+  await fs.writeFile(tmpfile, outputText);
+  try {
+    return await import(pathToFileURL(tmpfile).href);
+  } finally {
+    await fs.rm(tmpfile, { force: true });
+  }
+}
+
+async function readConfigFile(file: string): Promise<SchemaToolsConfig> {
+  if (file.endsWith(".json")) {
+    return JSON.parse(await fs.readFile(file, "utf8"));
+  }
+
+  const mod = file.endsWith(".ts")
+    ? await importTypescriptModule(file)
+    : await import(pathToFileURL(file).href);
+  return (mod.default ?? mod) as SchemaToolsConfig;
+}
+
+/**
+ * Finds the config file in `cwd` or its closest parent directory and loads
+ * it. Paths in the config are resolved relative to the config file.
+ *
+ * @returns The config, or `null` if no config file exists.
+ */
+export async function loadConfig(
+  cwd: string = process.cwd(),
+): Promise<LoadedConfig | null> {
+  const file = await findConfigFile(path.resolve(cwd));
+  if (!file) {
+    return null;
+  }
+
+  const config = { ...(await readConfigFile(file)) };
+  const dir = path.dirname(file);
+  const resolve = (p: string) => path.resolve(dir, p);
+
+  if (config.schemapaths) {
+    config.schemapaths = config.schemapaths.map(resolve);
+  }
+
+  for (const key of [
+    "dtspath",
+    "fnspath",
+    "validatorspath",
+    "manifestpath",
+  ] as const) {
+    if (config[key]) {
+      config[key] = resolve(config[key]);
+    }
+  }
+
+  if (config.schema?.path) {
+    config.schema = { ...config.schema, path: resolve(config.schema.path) };
+  }
+
+  return { path: file, config };
+}
+
+/**
+ * Converts a named target from the config to push options, reading the key
+ * from the environment.
+ *
+ * @param name - The target name, defaults to `config.defaultTarget`.
+ */
+export function resolveTarget(
+  config: SchemaToolsConfig,
+  name: string | undefined = config.defaultTarget,
+): PushSchemaOptions {
+  const target = name !== undefined ? config.targets?.[name] : undefined;
+  if (!target) {
+    const names = Object.keys(config.targets ?? {});
+    throw new Error(
+      name === undefined
+        ? "No target selected and no default target configured"
+        : `Unknown target ${name}, expected one of: ${names.join(", ") || "(none configured)"}`,
+    );
+  }
+
+  let options: PushSchemaOptions;
+  if (target.keyEnv) {
+    const key = process.env[target.keyEnv];
+    if (!key) {
+      throw new Error(
+        `Environment variable ${target.keyEnv} for target ${name} is not set`,
+      );
+    }
+
+    options = target.endpoint ? { endpoint: target.endpoint, key } : { key };
+  } else {
+    options = {
+      endpoint: target.endpoint || "http://localhost:8443",
+      key: "secret",
+    };
+  }
+
+  if (target.retainRevisions !== undefined) {
+    options.retainRevisions = target.retainRevisions;
+  }
+
+  return options;
+}
@@ -0,0 +1,112 @@
+export interface SchemaPosition {
+  offset: number;
+  line: number;
+  column: number;
+}
+
+/**
+ * Where a declaration was parsed from, as reported by the parser.
+ */
+export interface SchemaSourceLocation {
+  file: string;
+  start: SchemaPosition;
+  end: SchemaPosition;
+}
+
+export interface FunctionDeclaration {
+  name: string;
+
+  /**
+   * The name given with `@alias`.
+   */
+  alias: string | null;
+
+  /**
+   * Parameters with their fql types, or `null` for untyped parameters.
+   */
+  parameters: Array<{ name: string; type: string | null }>;
+  returnType: string | null;
+
+  /**
+   * The role given with `@role`.
+   */
+  role: string | null;
+
+  /**
+   * The canonical statements of the body, without the surrounding braces.
+   */
+  body: string;
+  location: SchemaSourceLocation | null;
+
+  /**
+   * The canonical representation of the whole declaration.
+   */
+  content: string;
+}
+
+export interface CollectionField {
+  name: string;
+  type: string | null;
+  default: string | null;
+}
+
+export interface CollectionComputedField {
+  name: string;
+  type: string | null;
+  body: string;
+}
+
+export interface CollectionIndex {
+  name: string;
+  terms: string[];
+  values: string[];
+}
+
+export type CollectionConstraint =
+  | { type: "unique"; terms: string[] }
+  | { type: "check"; name: string; predicate: string };
+
+export interface CollectionDeclaration {
+  name: string;
+  alias: string | null;
+  fields: CollectionField[];
+  computedFields: CollectionComputedField[];
+  indexes: CollectionIndex[];
+  constraints: CollectionConstraint[];
+  historyDays: number | null;
+  ttlDays: number | null;
+  documentTtls: boolean | null;
+  location: SchemaSourceLocation | null;
+  content: string;
+}
+
+export interface RolePrivileges {
+  resource: string;
+
+  /**
+   * Actions with their predicate function, if any.
+   */
+  actions: Array<{ action: string; predicate: string | null }>;
+}
+
+export interface RoleMembership {
+  collection: string;
+  predicate: string | null;
+}
+
+export interface RoleDeclaration {
+  name: string;
+  privileges: RolePrivileges[];
+  membership: RoleMembership[];
+  location: SchemaSourceLocation | null;
+  content: string;
+}
+
+export interface AccessProviderDeclaration {
+  name: string;
+  issuer: string | null;
+  jwksUri: string | null;
+  roles: Array<{ role: string; predicate: string | null }>;
+  location: SchemaSourceLocation | null;
+  content: string;
+}
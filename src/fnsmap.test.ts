@@ -0,0 +1,39 @@
+import { describe, expect, it } from "vitest";
+import { generateFnsMapFile, parseFnsMapFile } from "./fnsmap";
+
+const names = {
+  createUser: "createUser_0123456789abcdef0123456789abcdef01234567",
+  listUsers: "listUsers_v2",
+  ping: "ping",
+};
+
+describe("parseFnsMapFile", () => {
+  it("reads back the plain form", () => {
+    expect(parseFnsMapFile(generateFnsMapFile(names))).toEqual(names);
+  });
+
+  it("reads back the typed form", () => {
+    const content = generateFnsMapFile(names, {
+      signatures: [
+        {
+          name: "createUser",
+          parameters: [
+            { name: "data", type: "{ name: string; tags: Array<string> }" },
+            { name: "validate", type: "(value: string) => boolean" },
+          ],
+          returnType: "User",
+        },
+        {
+          name: "listUsers",
+          parameters: [{ name: "after", type: "string | null" }],
+          returnType: "Array<User>",
+        },
+        { name: "ping", parameters: [], returnType: "string" },
+      ],
+      typesImport: "./types",
+      typeNames: ["User"],
+    });
+
+    expect(parseFnsMapFile(content)).toEqual(names);
+  });
+});
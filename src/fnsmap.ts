@@ -0,0 +1,109 @@
+import jen from "jennifer-js";
+import type { FunctionSignature } from "./schema";
+
+export interface FnsMapFileOptions {
+  /**
+   * Function signatures from `Schema.getFunctionSignatures`. When set, a typed
+   * wrapper function that calls the mangled function is exported for each
+   * function instead of the bare mangled name.
+   */
+  signatures?: FunctionSignature[];
+
+  /**
+   * Module specifier of the file generated by `Schema.getTypescriptDefinitions`
+   * to import referenced collection types from.
+   */
+  typesImport?: string;
+
+  /**
+   * Names of the types exported by the types module.
+   */
+  typeNames?: string[];
+}
+
+export function generateFnsMapFile(
+  name: Record<string, string>,
+  options?: FnsMapFileOptions,
+): string {
+  if (!options?.signatures) {
+    return jen
+      .statements(
+        jen.import.obj(jen.id("fql")).from.lit("fauna"),
+        ...Object.entries(name)
+          .toSorted(([a], [b]) => a.localeCompare(b))
+          .map(([name, mangled]) =>
+            jen.export.const
+              .id(name)
+              .op("=")
+              .id("fql")
+              .call(jen.arr(jen.lit(mangled))),
+          ),
+      )
+      .toString();
+  }
+
+  const signatures = new Map(
+    options.signatures.map((signature) => [signature.name, signature]),
+  );
+
+  const wrappers = Object.entries(name)
+    .toSorted(([a], [b]) => a.localeCompare(b))
+    .map(([name, mangled]) => {
+      // signatures may be taken from either a linked or unlinked schema
+      const signature = signatures.get(mangled) ?? signatures.get(name);
+      const params = signature?.parameters ?? [];
+      const strings = params.length
+        ? [`${mangled}(`, ...params.slice(1).map(() => ", "), ")"]
+        : [`${mangled}()`];
+
+      return [
+        `export function ${name}(${params.map((p) => `${p.name}: ${p.type}`).join(", ")}): Query<${signature?.returnType ?? "any"}> {`,
+        `  return fql(${JSON.stringify(strings)}${params.map((p) => `, ${p.name}`).join("")});`,
+        "}",
+      ].join("\n");
+    });
+
+  const used = wrappers.join("\n");
+  const typeNames = (options.typesImport ? (options.typeNames ?? []) : [])
+    .filter((typeName) => new RegExp(`\\b${typeName}\\b`).test(used))
+    .toSorted();
+
+  return [
+    'import { fql, type Query } from "fauna";',
+    ...(typeNames.length
+      ? [
+          `import type { ${typeNames.join(", ")} } from ${JSON.stringify(options.typesImport)};`,
+        ]
+      : []),
+    "",
+    ...wrappers.flatMap((wrapper) => [wrapper, ""]),
+  ].join("\n");
+}
+
+/**
+ * Reads a file generated by `generateFnsMapFile` back into a map of original
+ * function names to mangled function names. Both the plain and the typed
+ * form are supported.
+ */
+export function parseFnsMapFile(content: string): Record<string, string> {
+  const names: Record<string, string> = {};
+
+  // export const name = fql(["mangled"]);
+  for (const match of content.matchAll(
+    /export\s+const\s+([\w$]+)\s*=\s*fql\s*\(\s*\[\s*("(?:[^"\\]|\\.)*")/g,
+  )) {
+    names[match[1]] = JSON.parse(match[2]);
+  }
+
+  // export function name(a: A): Query<R> {
+  //   return fql(["mangled(", ")"], a);
+  // }
+  for (const match of content.matchAll(
+    /export\s+function\s+([\w$]+)\s*\([\s\S]*?\breturn\s+fql\s*\(\s*\[\s*("(?:[^"\\]|\\.)*")/g,
+  )) {
+    const call: string = JSON.parse(match[2]);
+    names[match[1]] = call.slice(0, call.indexOf("("));
+  }
+
+  return names;
+}
@@ -0,0 +1,191 @@
+import type { DeclarationType } from "./schema";
+
+export interface DependencyNode {
+  /**
+   * `<type>:<name>`, e.g. `function:createUser`.
+   */
+  id: string;
+  type: DeclarationType;
+  name: string;
+}
+
+/**
+ * - `calls`: a function body or predicate calls a function
+ * - `reads`, `writes`: a function accesses a collection by name, documents
+ *   that are passed around as values are not visible
+ * - `grants`: a role has privileges on a collection or function
+ * - `membership`: documents of a collection are members of a role
+ */
+export type DependencyEdgeKind =
+  | "calls"
+  | "reads"
+  | "writes"
+  | "grants"
+  | "membership";
+
+export interface DependencyEdge {
+  from: string;
+  to: string;
+  kind: DependencyEdgeKind;
+
+  /**
+   * The granted actions for `grants` edges.
+   */
+  actions?: string[];
+}
+
+export interface DependencyGraph {
+  nodes: DependencyNode[];
+  edges: DependencyEdge[];
+}
+
+export type DependencyGraphFormat = "dot" | "mermaid" | "json";
+
+const collectionWrites = new Set(["create", "createData"]);
+
+const documentWrites =
+  /\.\s*(?:update|updateData|replace|replaceData|delete)\s*\(/;
+
+/**
+ * Returns how a function body accesses the given collections, where this is
+ * visible from the collection name, e.g. `User.create(...)` or
+ * `User.byId(id)!.update(...)`.
+ */
+export function findCollectionAccess(
+  content: string,
+  collections: Set<string>,
+): Map<string, Set<"reads" | "writes">> {
+  // strings and comments may contain anything, so remove them first
+  const code = content.replace(
+    /"(?:[^"\\]|\\.)*"|'(?:[^'\\]|\\.)*'|\/\/[^\n]*|\/\*[\s\S]*?\*\//g,
+    '""',
+  );
+
+  const access = new Map<string, Set<"reads" | "writes">>();
+  for (const match of code.matchAll(
+    /(?<![.\w$])([A-Za-z_$][\w$]*)\s*\.\s*([\w$]+)/g,
+  )) {
+    const [, collection, method] = match;
+    if (!collections.has(collection)) {
+      continue;
+    }
+
+    // the rest of the chain on the same line, e.g. `!.update(...)`
+    const chain = code.slice(match.index + match[0].length).split("\n")[0];
+    const kind =
+      collectionWrites.has(method) || documentWrites.test(chain)
+        ? "writes"
+        : "reads";
+
+    access.set(collection, (access.get(collection) ?? new Set()).add(kind));
+  }
+
+  return access;
+}
+
+/**
+ * Returns the part of the graph that depends on a node, i.e. the node and
+ * every node with a path of edges to it. This is what may break when the
+ * node changes.
+ */
+export function filterDependents(
+  graph: DependencyGraph,
+  id: string,
+): DependencyGraph {
+  const dependents = new Set([id]);
+  const queue = [id];
+  while (queue.length) {
+    const target = queue.pop();
+    for (const edge of graph.edges) {
+      if (edge.to === target && !dependents.has(edge.from)) {
+        dependents.add(edge.from);
+        queue.push(edge.from);
+      }
+    }
+  }
+
+  return {
+    nodes: graph.nodes.filter((node) => dependents.has(node.id)),
+    edges: graph.edges.filter(
+      (edge) => dependents.has(edge.from) && dependents.has(edge.to),
+    ),
+  };
+}
+
+function edgeLabel(edge: DependencyEdge): string {
+  return edge.actions?.length
+    ? `${edge.kind} ${edge.actions.join(", ")}`
+    : edge.kind;
+}
+
+const dotShapes: Record<string, string> = {
+  function: "box",
+  collection: "cylinder",
+  role: "ellipse",
+  access_provider: "hexagon",
+};
+
+function printDot(graph: DependencyGraph): string {
+  const lines = ["digraph schema {", "  rankdir=LR;"];
+  for (const node of graph.nodes) {
+    lines.push(
+      `  ${JSON.stringify(node.id)} [label=${JSON.stringify(node.name)}, shape=${dotShapes[node.type]}];`,
+    );
+  }
+
+  for (const edge of graph.edges) {
+    lines.push(
+      `  ${JSON.stringify(edge.from)} -> ${JSON.stringify(edge.to)} [label=${JSON.stringify(edgeLabel(edge))}];`,
+    );
+  }
+
+  lines.push("}");
+  return `${lines.join("\n")}\n`;
+}
+
+const mermaidShapes: Record<string, [open: string, close: string]> = {
+  function: ["[", "]"],
+  collection: ["[(", ")]"],
+  role: ["([", "])"],
+  access_provider: ["{{", "}}"],
+};
+
+function mermaidText(str: string): string {
+  return `"${str.replaceAll('"', "#quot;")}"`;
+}
+
+function printMermaid(graph: DependencyGraph): string {
+  // node ids may contain characters that mermaid does not allow
+  const ids = new Map(graph.nodes.map((node, i) => [node.id, `n${i}`]));
+
+  const lines = ["flowchart LR"];
+  for (const node of graph.nodes) {
+    const [open, close] = mermaidShapes[node.type];
+    lines.push(`  ${ids.get(node.id)}${open}${mermaidText(node.name)}${close}`);
+  }
+
+  for (const edge of graph.edges) {
+    lines.push(
+      `  ${ids.get(edge.from)} -->|${mermaidText(edgeLabel(edge))}| ${ids.get(edge.to)}`,
+    );
+  }
+
+  return `${lines.join("\n")}\n`;
+}
+
+/**
+ * Prints a dependency graph for graphviz, mermaid or as json.
+ */
+export function printDependencyGraph(
+  graph: DependencyGraph,
+  format: DependencyGraphFormat,
+): string {
+  switch (format) {
+    case "dot":
+      return printDot(graph);
+    case "mermaid":
+      return printMermaid(graph);
+    case "json":
+      return `${JSON.stringify(graph, null, 2)}\n`;
+  }
+}
@@ -0,0 +1,101 @@
+import { beforeAll, describe, expect, it } from "vitest";
+import { IncrementalLinker } from "./incremental";
+import { initWasm } from "./lib";
+
+beforeAll(() => initWasm());
+
+const helpers = `
+function helper(x) {
+  x + 1
+}
+
+function unrelated() {
+  "unrelated"
+}
+`;
+
+const callers = `
+function caller(x) {
+  helper(x)
+}
+`;
+
+describe("IncrementalLinker", () => {
+  it("only relinks changed functions and their callers", () => {
+    const linker = new IncrementalLinker();
+    try {
+      linker.update("helpers.fsl", helpers);
+      linker.update("callers.fsl", callers);
+
+      const first = linker.link();
+      first.schema.free();
+      expect(first.relinked.sort()).toEqual(["caller", "helper", "unrelated"]);
+      expect(linker.changed).toBe(false);
+
+      expect(
+        linker.update("helpers.fsl", helpers.replace("x + 1", "x + 2")),
+      ).toBe(true);
+      const second = linker.link();
+      second.schema.free();
+
+      expect(second.relinked.sort()).toEqual(["caller", "helper"]);
+      expect(second.mangledNames.unrelated).toBe(first.mangledNames.unrelated);
+      expect(second.mangledNames.helper).not.toBe(first.mangledNames.helper);
+      expect(second.mangledNames.caller).not.toBe(first.mangledNames.caller);
+    } finally {
+      linker.free();
+    }
+  });
+
+  it("ignores changes outside of declarations", () => {
+    const linker = new IncrementalLinker();
+    try {
+      linker.update("helpers.fsl", helpers);
+      linker.link().schema.free();
+
+      expect(linker.update("helpers.fsl", `\n\n${helpers}\n\n`)).toBe(false);
+      expect(linker.changed).toBe(false);
+    } finally {
+      linker.free();
+    }
+  });
+
+  it("relinks callers when a function is removed", () => {
+    const linker = new IncrementalLinker();
+    try {
+      linker.update("helpers.fsl", helpers);
+      linker.update("callers.fsl", callers);
+      const first = linker.link();
+      first.schema.free();
+
+      expect(linker.remove("callers.fsl")).toBe(true);
+      expect(linker.remove("missing.fsl")).toBe(false);
+      const second = linker.link();
+      second.schema.free();
+
+      expect(second.mangledNames).not.toHaveProperty("caller");
+      expect(second.relinked).toEqual([]);
+      expect(second.mangledNames.helper).toBe(first.mangledNames.helper);
+    } finally {
+      linker.free();
+    }
+  });
+
+  it("links every function again after a reset", () => {
+    const linker = new IncrementalLinker();
+    try {
+      linker.update("helpers.fsl", helpers);
+      linker.link().schema.free();
+      linker.update("callers.fsl", callers);
+
+      linker.reset();
+      expect(linker.changed).toBe(false);
+
+      const result = linker.link();
+      result.schema.free();
+      expect(result.relinked.sort()).toEqual(["caller", "helper", "unrelated"]);
+    } finally {
+      linker.free();
+    }
+  });
+});
@@ -0,0 +1,323 @@
+import { DeclarationType, type LinkFunctionsOptions, Schema } from "./schema";
+
+interface SchemaFile {
+  content: string;
+  tree: Schema;
+
+  /**
+   * Printed declarations by `<type> <name>`.
+   */
+  declarations: Map<string, string>;
+}
+
+export interface IncrementalLinkTimings {
+  /**
+   * Time spent parsing and printing the files that changed since the previous
+   * link.
+   */
+  parseMs: number;
+
+  /**
+   * Time spent merging the declarations that changed into the cached merged
+   * schema, or all files for the first link.
+   */
+  mergeMs: number;
+  linkMs: number;
+}
+
+export interface IncrementalLinkResult {
+  schema: Schema;
+  mangledNames: Record<string, string>;
+
+  /**
+   * Functions that were hashed again because they or a function they depend
+   * on changed. All other functions kept their previous names.
+   */
+  relinked: string[];
+  timings: IncrementalLinkTimings;
+}
+
+function declarationKey(type: DeclarationType, name: string): string {
+  return `${type} ${name}`;
+}
+
+/**
+ * Keeps the parsed schema files and their merged declarations between links,
+ * only merges the declarations that changed and only hashes the functions
+ * affected by a change again, for watch mode.
+ */
+export class IncrementalLinker {
+  readonly #files = new Map<string, SchemaFile>();
+
+  /**
+   * All files merged but not linked, kept up to date with the declarations
+   * that changed.
+   */
+  #merged: Schema | null = null;
+
+  /**
+   * Declarations that changed since they were merged, by `<type> <name>`.
+   */
+  readonly #stale = new Map<string, [type: DeclarationType, name: string]>();
+
+  /**
+   * Functions each function references as of the previous link, by function
+   * name.
+   */
+  #dependencies = new Map<string, string[]>();
+
+  /**
+   * Names from the previous link with the default strategy.
+   */
+  #linked: Record<string, string> = {};
+
+  /**
+   * Functions that were added, changed or removed since the previous link.
+   */
+  readonly #dirty = new Set<string>();
+  #changed = true;
+  #parseMs = 0;
+
+  constructor(
+    private readonly options?: Omit<
+      LinkFunctionsOptions,
+      "versions" | "linked"
+    >,
+  ) {}
+
+  /**
+   * Whether any declaration changed since the previous link.
+   */
+  public get changed(): boolean {
+    return this.#changed;
+  }
+
+  /**
+   * The parsed files, owned by the linker.
+   */
+  public get schemas(): Schema[] {
+    return Array.from(this.#files.values(), (file) => file.tree);
+  }
+
+  /**
+   * Parses a new or changed file.
+   *
+   * @returns Whether any declaration changed, which is not the case if only
+   *   formatting or comments outside of declarations changed.
+   */
+  public update(filename: string, content: string): boolean {
+    const previous = this.#files.get(filename);
+    if (previous?.content === content) {
+      return false;
+    }
+
+    const start = Date.now();
+    const tree = Schema.parse(content, filename);
+    const declarations = new Map<string, string>();
+    try {
+      for (const decl of tree.printDeclarations()) {
+        declarations.set(declarationKey(decl.type, decl.name), decl.content);
+      }
+    } catch (err) {
+      tree.free();
+      throw err;
+    } finally {
+      this.#parseMs += Date.now() - start;
+    }
+
+    previous?.tree.free();
+    this.#files.set(filename, { content, tree, declarations });
+
+    return this.#diff(previous?.declarations, declarations);
+  }
+
+  /**
+   * Removes a deleted file.
+   *
+   * @returns Whether the file declared anything.
+   */
+  public remove(filename: string): boolean {
+    const previous = this.#files.get(filename);
+    if (!previous) {
+      return false;
+    }
+
+    previous.tree.free();
+    this.#files.delete(filename);
+
+    return this.#diff(previous.declarations, new Map());
+  }
+
+  #diff(
+    before: Map<string, string> | undefined,
+    after: Map<string, string>,
+  ): boolean {
+    let changed = false;
+    for (const key of new Set([...(before?.keys() ?? []), ...after.keys()])) {
+      if (before?.get(key) === after.get(key)) {
+        continue;
+      }
+
+      changed = true;
+
+      const separator = key.indexOf(" ");
+      const type = key.slice(0, separator) as DeclarationType;
+      const name = key.slice(separator + 1);
+      this.#stale.set(key, [type, name]);
+      if (type === DeclarationType.FUNCTION) {
+        this.#dirty.add(name);
+      }
+    }
+
+    this.#changed ||= changed;
+    return changed;
+  }
+
+  /**
+   * Brings the merged schema up to date by replacing the stale declarations
+   * with the ones from the files that declare them now.
+   */
+  #merge(): Schema {
+    if (!this.#merged) {
+      this.#merged = Schema.merge(this.schemas.map((tree) => tree.clone()));
+      this.#stale.clear();
+      return this.#merged;
+    }
+
+    try {
+      for (const [key, [type, name]] of this.#stale) {
+        // roles may be declared in several files
+        let removed = true;
+        while (removed) {
+          removed = this.#merged.removeDeclaration(type, name);
+        }
+
+        for (const file of this.#files.values()) {
+          if (file.declarations.has(key)) {
+            this.#merged.merge(file.tree.filterByName(type, name));
+          }
+        }
+      }
+    } catch (err) {
+      // merge everything again with the next link
+      this.#merged.free();
+      this.#merged = null;
+      throw err;
+    }
+
+    this.#stale.clear();
+    return this.#merged;
+  }
+
+  /**
+   * Returns the dirty functions and every function that transitively
+   * references one of them, before or after the changes.
+   */
+  #affectedFunctions(dependencies: Map<string, string[]>): Set<string> {
+    const callers = new Map<string, Set<string>>();
+    for (const deps of [this.#dependencies, dependencies]) {
+      for (const [name, called] of deps) {
+        for (const callee of called) {
+          if (callee !== name) {
+            callers.set(callee, (callers.get(callee) ?? new Set()).add(name));
+          }
+        }
+      }
+    }
+
+    const affected = new Set(this.#dirty);
+    const queue = Array.from(this.#dirty);
+    while (queue.length) {
+      for (const caller of callers.get(queue.pop()) ?? []) {
+        if (!affected.has(caller)) {
+          affected.add(caller);
+          queue.push(caller);
+        }
+      }
+    }
+
+    return affected;
+  }
+
+  /**
+   * Merges the changed declarations and links the functions, reusing the
+   * previous names of functions that are not affected by the changes since
+   * the previous link.
+   *
+   * The caller owns the returned schema.
+   */
+  public link(): IncrementalLinkResult {
+    let start = Date.now();
+    const merged = this.#merge();
+    const mergeMs = Date.now() - start;
+
+    start = Date.now();
+    const dependencies = new Map<string, string[]>();
+    for (const { type, name, functions } of merged.getFunctionReferences()) {
+      if (type === DeclarationType.FUNCTION) {
+        dependencies.set(name, functions);
+      }
+    }
+
+    const affected = this.#affectedFunctions(dependencies);
+    const linked: Record<string, string> = {};
+    for (const [name, mangled] of Object.entries(this.#linked)) {
+      if (!affected.has(name)) {
+        linked[name] = mangled;
+      }
+    }
+
+    const schema = merged.clone();
+    let mangledNames: Record<string, string>;
+    try {
+      this.#linked = schema.linkFunctions({ linked });
+      mangledNames = schema.applyManglingStrategy(this.#linked, this.options);
+      schema.mergeRoles();
+      schema.sort();
+    } catch (err) {
+      schema.free();
+      throw err;
+    }
+    const linkMs = Date.now() - start;
+
+    const result: IncrementalLinkResult = {
+      schema,
+      mangledNames,
+      relinked: Object.keys(mangledNames).filter((name) => !(name in linked)),
+      timings: { parseMs: this.#parseMs, mergeMs, linkMs },
+    };
+
+    this.#dependencies = dependencies;
+    this.#dirty.clear();
+    this.#changed = false;
+    this.#parseMs = 0;
+
+    return result;
+  }
+
+  /**
+   * Forgets the merged schema and the previous names after the files were
+   * linked as a whole, e.g. with a link manifest, so `changed` only reports
+   * changes since then and the next `link` hashes every function again.
+   */
+  public reset(): void {
+    this.#merged?.free();
+    this.#merged = null;
+    this.#stale.clear();
+    this.#dependencies = new Map();
+    this.#linked = {};
+    this.#dirty.clear();
+    this.#changed = false;
+    this.#parseMs = 0;
+  }
+
+  public free(): void {
+    for (const file of this.#files.values()) {
+      file.tree.free();
+    }
+
+    this.#files.clear();
+    this.#merged?.free();
+    this.#merged = null;
+  }
+}
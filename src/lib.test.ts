@@ -0,0 +1,638 @@
+import * as fs from "node:fs/promises";
+import * as os from "node:os";
+import * as path from "node:path";
+import {
+  afterEach,
+  beforeAll,
+  beforeEach,
+  describe,
+  expect,
+  it,
+  vi,
+} from "vitest";
+import {
+  FaunaHttpError,
+  PushSchemaConflictError,
+  PushSchemaValidationError,
+  abandonStagedSchema,
+  commitStagedSchema,
+  diffSchemas,
+  getSchemaHistory,
+  getStagedStatus,
+  initWasm,
+  mergeSchemas,
+  pushSchema,
+  pullSchema,
+  pushSchemaToDatabases,
+  readPushLedger,
+  rollbackSchema,
+  type SchemaEndpointOptions,
+  stageSchema,
+} from "./lib";
+import { type MockSchemaServer, createMockSchemaServer } from "./mock";
+import { DeclarationType, Schema } from "./schema";
+
+let server: MockSchemaServer;
+let tempdir: string;
+
+beforeEach(async () => {
+  server = await createMockSchemaServer();
+  tempdir = await fs.mkdtemp(path.join(os.tmpdir(), "fst-lib-"));
+});
+
+afterEach(async () => {
+  await server.close();
+  await fs.rm(tempdir, { recursive: true, force: true });
+});
+
+/**
+ * Returns a `fetch` that answers with the given responses or errors first
+ * and then passes requests on to the mock server.
+ */
+function failingFetch(...failures: Array<Response | Error>) {
+  const requests: string[] = [];
+  const f: typeof fetch = async (input, init) => {
+    requests.push(
+      `${init?.method ?? "GET"} ${new URL(input.toString()).pathname}`,
+    );
+    const failure = failures.shift();
+    if (failure instanceof Error) {
+      throw failure;
+    }
+
+    return failure ?? fetch(input, init);
+  };
+
+  return Object.assign(f, { requests });
+}
+
+function connectionRefused(): Error {
+  return new TypeError("fetch failed", {
+    cause: Object.assign(new Error("connect ECONNREFUSED"), {
+      code: "ECONNREFUSED",
+    }),
+  });
+}
+
+function badGateway(status = 502): Response {
+  return new Response("<html>Bad Gateway</html>", { status });
+}
+
+function options(
+  overrides?: Partial<SchemaEndpointOptions>,
+): SchemaEndpointOptions {
+  return {
+    endpoint: server.endpoint,
+    key: "secret",
+    retry: { minDelayMs: 1 },
+    ...overrides,
+  };
+}
+
+/**
+ * Updates the schema of the mock server like another client would.
+ */
+async function update(
+  files: Record<string, string>,
+  staged = false,
+): Promise<number> {
+  const body = new FormData();
+  for (const [filename, content] of Object.entries(files)) {
+    body.append(filename, content);
+  }
+
+  await fetch(
+    `${server.endpoint}/schema/1/update?force=true${staged ? "&staged=true" : ""}`,
+    {
+      method: "POST",
+      headers: { Authorization: "Bearer secret" },
+      body,
+    },
+  );
+
+  return server.version;
+}
+
+function stage(files: Record<string, string>): Promise<number> {
+  return update(files, true);
+}
+
+/**
+ * Links the source without mangling, so names can be checked directly.
+ */
+function link(source: string): Schema {
+  using parsed = Schema.parse(source, "main.fsl");
+  const [merged] = mergeSchemas([parsed], { strategy: "none" });
+  return merged;
+}
+
+describe("schema requests", () => {
+  it("retries reads after server errors", async () => {
+    const f = failingFetch(badGateway(), connectionRefused());
+
+    expect(await getStagedStatus(options({ fetch: f }))).toMatchObject({
+      status: "none",
+    });
+    expect(f.requests).toHaveLength(3);
+  });
+
+  it("throws a FaunaHttpError once the retries are used up", async () => {
+    const f = failingFetch(badGateway(), badGateway());
+
+    const err = await getStagedStatus(
+      options({ fetch: f, retry: { retries: 1, minDelayMs: 1 } }),
+    ).catch((err) => err);
+    expect(err).toBeInstanceOf(FaunaHttpError);
+    expect(err).toMatchObject({ status: 502, method: "GET" });
+    expect(f.requests).toHaveLength(2);
+  });
+
+  it("does not retry updates that failed with 503", async () => {
+    const version = await stage({ "main.fsl": "collection User {}\n" });
+    const f = failingFetch(badGateway(503));
+
+    await expect(
+      commitStagedSchema({ ...options({ fetch: f }), version }),
+    ).rejects.toBeInstanceOf(FaunaHttpError);
+    expect(f.requests).toEqual(["POST /schema/1/staged/commit"]);
+    expect(server.staged).not.toBeNull();
+  });
+
+  it("retries updates that could not connect", async () => {
+    const version = await stage({ "main.fsl": "collection User {}\n" });
+    const f = failingFetch(connectionRefused());
+
+    expect(
+      await commitStagedSchema({ ...options({ fetch: f }), version }),
+    ).toBe(version + 1);
+    expect(f.requests).toHaveLength(2);
+    expect(server.staged).toBeNull();
+    expect(Object.keys(server.files)).toEqual(["main.fsl"]);
+  });
+
+  it("retries updates that were rate limited", async () => {
+    const version = await stage({ "main.fsl": "collection User {}\n" });
+    const f = failingFetch(new Response("{}", { status: 429 }));
+
+    await commitStagedSchema({ ...options({ fetch: f }), version });
+    expect(f.requests).toHaveLength(2);
+    expect(server.staged).toBeNull();
+  });
+
+  it("times out requests that do not respond", async () => {
+    const hanging: typeof fetch = (_input, init) =>
+      new Promise<Response>((_resolve, reject) =>
+        init?.signal?.addEventListener("abort", () =>
+          reject(init.signal.reason),
+        ),
+      );
+
+    await expect(
+      getStagedStatus(options({ fetch: hanging, timeoutMs: 10, retry: false })),
+    ).rejects.toMatchObject({ name: "TimeoutError" });
+  });
+
+  it("stops retrying when cancelled", async () => {
+    const controller = new AbortController();
+    const f = failingFetch(badGateway(), badGateway(), badGateway());
+    const status = getStagedStatus(
+      options({
+        fetch: f,
+        signal: controller.signal,
+        retry: { minDelayMs: 1000 },
+      }),
+    );
+    setTimeout(() => controller.abort(), 10);
+
+    await expect(status).rejects.toMatchObject({ name: "AbortError" });
+    expect(f.requests).toHaveLength(1);
+  });
+});
+
+describe("version-checked pushes", () => {
+  beforeAll(() => initWasm());
+
+  /**
+   * Returns a `fetch` that lets another client update the schema while the
+   * first push is being validated.
+   */
+  function concurrentUpdateFetch(): typeof fetch {
+    let updated = false;
+    return async (input, init) => {
+      if (
+        !updated &&
+        new URL(input.toString()).pathname === "/schema/1/validate"
+      ) {
+        updated = true;
+        await update({ "other.fsl": "collection Other {}\n" });
+      }
+
+      return fetch(input, init);
+    };
+  }
+
+  it("fails when the schema changed during the push", async () => {
+    using schema = link('function greet() {\n  "hello"\n}\n');
+
+    await expect(
+      pushSchema(schema, {
+        ...options({ fetch: concurrentUpdateFetch() }),
+        tempdir,
+        ledger: false,
+        retainRevisions: 0,
+        checkVersion: true,
+      }),
+    ).rejects.toBeInstanceOf(PushSchemaConflictError);
+    expect(Object.keys(server.files)).toEqual(["other.fsl"]);
+  });
+
+  it("pushes again after a conflict", async () => {
+    using schema = link('function greet() {\n  "hello"\n}\n');
+    const onConflictRetry = vi.fn();
+
+    const result = await pushSchema(schema, {
+      ...options({ fetch: concurrentUpdateFetch() }),
+      tempdir,
+      ledger: false,
+      retainRevisions: 0,
+      conflictRetries: 2,
+      onConflictRetry,
+    });
+
+    expect(result.updateMs).toBeTypeOf("number");
+    expect(onConflictRetry).toHaveBeenCalledTimes(1);
+    expect(onConflictRetry).toHaveBeenCalledWith(1, 2, undefined);
+    expect(server.files["functions_0.fsl"]).toContain("function greet()");
+    expect(server.version).toBe(2);
+  });
+
+  it("overwrites concurrent changes without a version check", async () => {
+    using schema = link('function greet() {\n  "hello"\n}\n');
+
+    await pushSchema(schema, {
+      ...options({ fetch: concurrentUpdateFetch() }),
+      tempdir,
+      ledger: false,
+      retainRevisions: 0,
+    });
+
+    expect(Object.keys(server.files)).toEqual(["functions_0.fsl"]);
+  });
+});
+
+describe("dry runs", () => {
+  beforeAll(() => initWasm());
+
+  it("validates the schema and returns the files without updating", async () => {
+    await update({ "main.fsl": "collection User {}\n" });
+    using schema = link('function greet() {\n  "hello"\n}\n');
+
+    const result = await pushSchema(schema, {
+      ...options(),
+      tempdir,
+      retainRevisions: 0,
+      dryRun: true,
+    });
+
+    expect(result.diff).toBeTruthy();
+    expect(result.updateMs).toBeUndefined();
+    expect(result.files["functions_0.fsl"]).toContain("function greet()");
+    expect(Object.keys(server.files)).toEqual(["main.fsl"]);
+    expect(server.version).toBe(1);
+    expect(await readPushLedger(path.join(tempdir, "ledger.jsonl"))).toEqual(
+      [],
+    );
+  });
+});
+
+describe("staged pushes", () => {
+  beforeAll(() => initWasm());
+
+  async function stageGreeting(): Promise<void> {
+    using schema = link('function greet() {\n  "hello"\n}\n');
+    await stageSchema(schema, {
+      ...options(),
+      tempdir,
+      ledger: false,
+      retainRevisions: 0,
+    });
+  }
+
+  beforeEach(() => update({ "main.fsl": "collection User {}\n" }));
+
+  it("stages the schema without applying it", async () => {
+    await stageGreeting();
+
+    expect(Object.keys(server.files)).toEqual(["main.fsl"]);
+    expect(server.staged?.["functions_0.fsl"]).toContain("function greet()");
+    expect(await getStagedStatus(options())).toEqual({
+      status: "ready",
+      version: server.version,
+      diff: expect.stringContaining("Adding file `functions_0.fsl`"),
+    });
+  });
+
+  it("applies the staged schema on commit", async () => {
+    await stageGreeting();
+    const version = await commitStagedSchema(options());
+
+    expect(version).toBe(server.version);
+    expect(server.staged).toBeNull();
+    expect(server.files["functions_0.fsl"]).toContain("function greet()");
+    expect((await getStagedStatus(options())).status).toBe("none");
+  });
+
+  it("discards the staged schema on abandon", async () => {
+    await stageGreeting();
+    await abandonStagedSchema(options());
+
+    expect(server.staged).toBeNull();
+    expect(Object.keys(server.files)).toEqual(["main.fsl"]);
+  });
+
+  it("does not commit a schema that was staged again since", async () => {
+    const version = await stage({ "a.fsl": "collection A {}\n" });
+    await stage({ "b.fsl": "collection B {}\n" });
+
+    await expect(
+      commitStagedSchema({ ...options(), version }),
+    ).rejects.toBeInstanceOf(PushSchemaConflictError);
+    expect(Object.keys(server.staged ?? {})).toEqual(["b.fsl"]);
+  });
+});
+
+describe("pushing to several databases", () => {
+  const databases: MockSchemaServer[] = [];
+
+  beforeAll(() => initWasm());
+
+  beforeEach(async () => {
+    for (const key of ["acme-key", "globex-key"]) {
+      databases.push(await createMockSchemaServer({ key }));
+    }
+  });
+
+  afterEach(async () => {
+    await Promise.all(databases.splice(0).map((db) => db.close()));
+  });
+
+  function push(schema: Schema, continueOnError = false) {
+    const [acme, globex] = databases;
+    return pushSchemaToDatabases(schema, {
+      ...options(),
+      tempdir,
+      ledger: false,
+      retainRevisions: 0,
+      concurrency: 1,
+      continueOnError,
+      databases: [
+        { name: "acme", endpoint: acme.endpoint, key: "acme-key" },
+        { name: "globex", endpoint: globex.endpoint, key: "globex-key" },
+      ],
+    });
+  }
+
+  it("pushes to every database with its own key", async () => {
+    using schema = link('function greet() {\n  "hello"\n}\n');
+    const result = await push(schema);
+
+    expect(result).toMatchObject({ pushed: 2, failed: 0, skipped: 0 });
+    for (const db of databases) {
+      expect(db.files["functions_0.fsl"]).toContain("function greet()");
+    }
+  });
+
+  it("skips the remaining databases after a failure", async () => {
+    databases[0].validate = () => "invalid schema";
+    using schema = link('function greet() {\n  "hello"\n}\n');
+    const result = await push(schema);
+
+    expect(result).toMatchObject({ pushed: 0, failed: 1, skipped: 1 });
+    expect(result.results[0].error).toBeInstanceOf(PushSchemaValidationError);
+    expect(result.results[1]).toEqual({
+      database: "globex",
+      status: "skipped",
+    });
+    expect(databases[1].files).toEqual({});
+  });
+
+  it("keeps pushing after a failure with continueOnError", async () => {
+    databases[0].validate = () => "invalid schema";
+    using schema = link('function greet() {\n  "hello"\n}\n');
+    const result = await push(schema, true);
+
+    expect(result).toMatchObject({ pushed: 1, failed: 1, skipped: 0 });
+    expect(result.results.map((r) => r.status)).toEqual(["failed", "pushed"]);
+    expect(databases[1].files["functions_0.fsl"]).toContain("function greet()");
+  });
+
+  it("derives scoped keys for child databases given by name", async () => {
+    const child = await createMockSchemaServer({
+      key: "secret:tenants/acme:admin",
+    });
+    databases.push(child);
+    using schema = link('function greet() {\n  "hello"\n}\n');
+
+    const result = await pushSchemaToDatabases(schema, {
+      endpoint: child.endpoint,
+      key: "secret",
+      tempdir,
+      ledger: false,
+      retainRevisions: 0,
+      databases: ["tenants/acme"],
+    });
+
+    expect(result.results).toEqual([
+      { database: "tenants/acme", status: "pushed", result: expect.anything() },
+    ]);
+    expect(child.files["functions_0.fsl"]).toContain("function greet()");
+  });
+});
+
+describe("push history and rollback", () => {
+  beforeAll(() => initWasm());
+
+  /**
+   * Pushes a greeting with hashed names and returns the mangled name.
+   */
+  async function pushGreeting(greeting: string): Promise<string> {
+    using parsed = Schema.parse(
+      `function greet() {\n  ${JSON.stringify(greeting)}\n}\n`,
+      "main.fsl",
+    );
+    const [schema, mangledNames] = mergeSchemas([parsed]);
+    try {
+      await pushSchema(schema, {
+        ...options(),
+        tempdir,
+        mangledNames,
+      });
+    } finally {
+      schema.free();
+    }
+
+    return mangledNames.greet;
+  }
+
+  it("lists the retained revisions newest first", async () => {
+    const first = await pushGreeting("hello");
+    const second = await pushGreeting("hi");
+
+    expect(await getSchemaHistory(options())).toEqual([
+      {
+        revision: 0,
+        filename: "functions_0.fsl",
+        functions: [second],
+        referencedByRoles: [],
+      },
+      {
+        revision: 1,
+        filename: "functions_1.fsl",
+        functions: [first],
+        referencedByRoles: [],
+      },
+    ]);
+  });
+
+  it("rolls back to the functions of an older revision", async () => {
+    const first = await pushGreeting("hello");
+    const second = await pushGreeting("hi");
+
+    await rollbackSchema(1, { ...options(), tempdir, ledger: false });
+
+    const history = await getSchemaHistory(options());
+    expect(history.map((revision) => revision.functions)).toEqual([
+      [first],
+      [second],
+    ]);
+  });
+
+  it("does not roll back to a revision that does not exist", async () => {
+    await pushGreeting("hello");
+
+    await expect(
+      rollbackSchema(5, { ...options(), tempdir, ledger: false }),
+    ).rejects.toThrow("Revision 5 does not exist");
+  });
+
+  it("records pushes in the ledger", async () => {
+    const first = await pushGreeting("hello");
+    const second = await pushGreeting("hi");
+
+    const ledger = await readPushLedger(path.join(tempdir, "ledger.jsonl"));
+    expect(ledger).toEqual([
+      expect.objectContaining({
+        endpoint: server.endpoint,
+        version: 1,
+        staged: false,
+        files: ["functions_0.fsl"],
+        mangledNames: { greet: first },
+      }),
+      expect.objectContaining({
+        version: 2,
+        files: ["functions_0.fsl", "functions_1.fsl"],
+        mangledNames: { greet: second },
+      }),
+    ]);
+  });
+});
+
+describe("pullSchema", () => {
+  beforeAll(() => initWasm());
+
+  beforeEach(() =>
+    update({
+      "functions_0.fsl":
+        'function greet_0123456789ab() {\n  "hello"\n}\n\nfunction api_v2() {\n  "v2"\n}\n',
+    }),
+  );
+
+  async function pull(
+    overrides?: Partial<Parameters<typeof pullSchema>[0]>,
+  ): Promise<string[]> {
+    const outdir = path.join(tempdir, "pulled");
+    const files = await pullSchema({
+      ...options(),
+      outdir,
+      layout: "declaration",
+      ...overrides,
+    });
+
+    return files.map((file) => path.relative(outdir, file)).sort();
+  }
+
+  it("keeps function names that are not in the names map", async () => {
+    expect(await pull()).toEqual([
+      path.join("functions", "api_v2.fsl"),
+      path.join("functions", "greet_0123456789ab.fsl"),
+    ]);
+  });
+
+  it("restores the original names from the names map", async () => {
+    expect(
+      await pull({ mangledNames: { greet: "greet_0123456789ab" } }),
+    ).toEqual([
+      path.join("functions", "api_v2.fsl"),
+      path.join("functions", "greet.fsl"),
+    ]);
+  });
+
+  it("restores the original names from the manifest", async () => {
+    expect(
+      await pull({
+        manifest: {
+          version: 1,
+          functions: {
+            greet: { mangled: "greet_0123456789ab", hash: "", version: 1 },
+          },
+        },
+      }),
+    ).toEqual([
+      path.join("functions", "api_v2.fsl"),
+      path.join("functions", "greet.fsl"),
+    ]);
+  });
+});
+
+describe("diffSchemas", () => {
+  beforeAll(() => initWasm());
+
+  it("lists added, removed and modified declarations", () => {
+    using a = Schema.parse(
+      'collection User {\n  name: String\n}\n\nfunction greet() {\n  "hello"\n}\n\nfunction old() {\n  1\n}\n',
+      "a.fsl",
+    );
+    using b = Schema.parse(
+      'collection User {\n  name: String\n}\n\nfunction greet() {\n  "hi"\n}\n\nrole reader {\n  privileges User {\n    read\n  }\n}\n',
+      "b.fsl",
+    );
+
+    const diff = diffSchemas(a, b);
+    expect(diff.added).toEqual([
+      { type: DeclarationType.ROLE, name: "reader" },
+    ]);
+    expect(diff.removed).toEqual([
+      { type: DeclarationType.FUNCTION, name: "old" },
+    ]);
+    expect(diff.modified).toEqual([
+      {
+        type: DeclarationType.FUNCTION,
+        name: "greet",
+        diff: expect.stringMatching(/^-\s*"hello"\n\+\s*"hi"$/m),
+      },
+    ]);
+    expect(diff.modified[0].diff).toMatch(
+      /^--- a\/function\/greet\n\+\+\+ b\/function\/greet\n@@ /,
+    );
+  });
+
+  it("ignores formatting", () => {
+    using a = Schema.parse('function greet() {\n  "hello"\n}\n', "a.fsl");
+    using b = Schema.parse(
+      '\n\nfunction greet() {\n\n    "hello"\n}\n',
+      "b.fsl",
+    );
+
+    expect(diffSchemas(a, b)).toEqual({ added: [], removed: [], modified: [] });
+  });
+});
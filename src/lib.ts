@@ -1,21 +1,466 @@
 import * as fs from "node:fs/promises";
-import { DeclarationType, RoleMemberType, Schema } from "./schema";
+import {
+  DeclarationType,
+  RoleMemberType,
+  Schema,
+  SchemaParseError,
+  init,
+  isInitialized,
+  type LinkFunctionsOptions,
+} from "./schema";
 import { SourceMapConsumer } from "source-map";
+import {
+  linkFunctionsWithManifest,
+  stringifyLinkManifest,
+  type LinkManifest,
+  type LinkManifestReport,
+} from "./manifest";
 import * as path from "node:path";
 import globParent from "glob-parent";
 import anymatch from "anymatch";
 
-export { init, Schema } from "./schema";
+export {
+  init,
+  Schema,
+  DeclarationType,
+  RoleMemberType,
+  SchemaError,
+  SchemaParseError,
+  type SchemaDiagnostic,
+  type FunctionSignature,
+  type FunctionReferences,
+  type ValidatorTarget,
+  type ManglingStrategy,
+  type LinkFunctionsOptions,
+} from "./schema";
+export type {
+  AccessProviderDeclaration,
+  CollectionComputedField,
+  CollectionConstraint,
+  CollectionDeclaration,
+  CollectionField,
+  CollectionIndex,
+  FunctionDeclaration,
+  RoleDeclaration,
+  RoleMembership,
+  RolePrivileges,
+  SchemaPosition,
+  SchemaSourceLocation,
+} from "./declarations";
+export type {
+  CollectionDefinition,
+  ComputedFieldDefinition,
+  FieldDefinition,
+  FunctionDefinition,
+  IndexDefinition,
+  PrivilegeAction,
+  RoleAction,
+} from "./builder";
+export {
+  printDependencyGraph,
+  filterDependents,
+  type DependencyGraph,
+  type DependencyGraphFormat,
+  type DependencyNode,
+  type DependencyEdge,
+  type DependencyEdgeKind,
+} from "./graph";
+export {
+  findUnused,
+  findImportedFunctions,
+  type FindUnusedOptions,
+  type UnusedDeclarations,
+} from "./unused";
+export { faunaSchema, type FaunaSchemaPluginOptions } from "./plugin";
+export {
+  readLinkManifest,
+  defaultManifestPath,
+  type LinkManifest,
+  type LinkManifestReport,
+} from "./manifest";
+export {
+  IncrementalLinker,
+  type IncrementalLinkResult,
+  type IncrementalLinkTimings,
+} from "./incremental";
+export {
+  generateFnsMapFile,
+  parseFnsMapFile,
+  type FnsMapFileOptions,
+} from "./fnsmap";
+export {
+  writeSchemaOutputs,
+  linkSchemaFiles,
+  type OutputCache,
+  type OutputTimings,
+} from "./outputs";
+export {
+  watchSchemas,
+  type SchemaWatcher,
+  type SchemaWatcherEvents,
+  type SchemaWatchBuild,
+  type WatchSchemasOptions,
+} from "./watch";
+export { startLanguageServer, type LanguageServerOptions } from "./lsp";
+export {
+  createMockSchemaServer,
+  type MockSchemaServer,
+  type MockSchemaServerOptions,
+} from "./mock";
+export {
+  loadConfig,
+  resolveTarget,
+  configFilenames,
+  type SchemaToolsConfig,
+  type SchemaTarget,
+  type LoadedConfig,
+} from "./config";
+export {
+  lintSchema,
+  type LintMessage,
+  type LintRule,
+  type LintRules,
+  type LintSeverity,
+} from "./lint";
+
+/**
+ * Initializes the WASM module using the binary that ships with this package.
+ * Does nothing if it was already initialized.
+ */
+export async function initWasm(): Promise<void> {
+  if (isInitialized()) {
+    return;
+  }
 
-export type PushSchemaOptions = {
-  retainRevisions?: number;
-  tempdir?: string;
-} & (
+  init(
+    await fs.readFile(
+      typeof require !== "undefined"
+        ? require.resolve("fauna-schema-tools/wasm")
+        : import.meta.resolve("fauna-schema-tools/wasm"),
+    ),
+  );
+}
+
+export type SchemaEndpointOptions = (
   | { key: string }
   | { secret: string }
   | { endpoint: string; key?: string }
   | { endpoint: string; secret?: string }
-);
+) & {
+  /**
+   * Used for all requests instead of the global `fetch`, e.g. to add logging
+   * or to talk to a mock server.
+   */
+  fetch?: typeof fetch;
+
+  /**
+   * Cancels all outstanding requests.
+   */
+  signal?: AbortSignal;
+
+  /**
+   * Timeout for each request attempt, defaults to 60 seconds.
+   */
+  timeoutMs?: number;
+
+  /**
+   * How to retry requests that failed with 429, 5xx or a network error.
+   * Updates are only retried on 429 and when the connection failed.
+   */
+  retry?: RetryPolicy | false;
+};
+
+export interface RetryPolicy {
+  /**
+   * Number of retries after the first attempt, defaults to 3.
+   */
+  retries?: number;
+
+  /**
+   * Delay before the first retry, doubled for every retry after it. Defaults
+   * to 500ms.
+   */
+  minDelayMs?: number;
+
+  /**
+   * Defaults to 10 seconds.
+   */
+  maxDelayMs?: number;
+}
+
+/**
+ * Thrown when a request fails in a way that is not reported by the endpoint
+ * itself, e.g. when a proxy responds with an html error page.
+ */
+export class FaunaHttpError extends Error {
+  constructor(
+    public readonly status: number,
+    public readonly method: string,
+    public readonly path: string,
+    public readonly bodyExcerpt: string,
+  ) {
+    super(
+      `${method} ${path} failed with status ${status}${bodyExcerpt ? `: ${bodyExcerpt}` : ""}`,
+    );
+  }
+}
+
+interface SchemaConnection {
+  endpoint: string;
+  key: string;
+  fetch: typeof fetch;
+  signal?: AbortSignal;
+  timeoutMs: number;
+  retry: Required<RetryPolicy>;
+}
+
+function resolveEndpoint(options: SchemaEndpointOptions): SchemaConnection {
+  const retry: RetryPolicy =
+    options.retry === false ? { retries: 0 } : (options.retry ?? {});
+  return {
+    endpoint:
+      (options as { endpoint?: string }).endpoint || "https://db.fauna.com",
+    key:
+      (options as { key?: string }).key ||
+      (options as { secret?: string }).secret ||
+      "",
+    fetch: options.fetch ?? fetch,
+    signal: options.signal,
+    timeoutMs: options.timeoutMs ?? 60_000,
+    retry: {
+      retries: retry.retries ?? 3,
+      minDelayMs: retry.minDelayMs ?? 500,
+      maxDelayMs: retry.maxDelayMs ?? 10_000,
+    },
+  };
+}
+
+function abortableSleep(ms: number, signal?: AbortSignal): Promise<void> {
+  return new Promise((resolve, reject) => {
+    signal?.throwIfAborted();
+    const timeout = setTimeout(() => {
+      signal?.removeEventListener("abort", onAbort);
+      resolve();
+    }, ms);
+    function onAbort() {
+      clearTimeout(timeout);
+      reject(signal.reason);
+    }
+    signal?.addEventListener("abort", onAbort, { once: true });
+  });
+}
+
+function backoff(retry: Required<RetryPolicy>, attempt: number): number {
+  return Math.min(retry.minDelayMs * 2 ** attempt, retry.maxDelayMs);
+}
+
+// errors of connections that failed before anything was sent
+const connectionErrorCodes = new Set([
+  "ECONNREFUSED",
+  "ENOTFOUND",
+  "EAI_AGAIN",
+  "EHOSTUNREACH",
+  "ENETUNREACH",
+  "UND_ERR_CONNECT_TIMEOUT",
+]);
+
+function isConnectionError(err: unknown): boolean {
+  const cause = (err as { cause?: { code?: string } })?.cause;
+  return connectionErrorCodes.has(cause?.code);
+}
+
+type ErrorResponse = { error?: { code?: string; message: string } };
+
+/**
+ * Sends a request to a schema endpoint and parses the json response.
+ *
+ * Requests are retried on 429, 5xx and network errors. Requests that are not
+ * idempotent are only retried on 429 and when the connection could not be
+ * established, otherwise they may already have been applied. A 503 for such
+ * a request is thrown as a `FaunaHttpError`, since a proxy may send it after
+ * the endpoint accepted the request.
+ */
+async function request<T extends ErrorResponse>(
+  conn: SchemaConnection,
+  method: "GET" | "POST",
+  pathname: string,
+  options?: { body?: FormData; idempotent?: boolean },
+): Promise<{ status: number; json: T }> {
+  const idempotent = options?.idempotent ?? method === "GET";
+  const url = new URL(pathname, conn.endpoint);
+
+  for (let attempt = 0; ; attempt++) {
+    const signals = [AbortSignal.timeout(conn.timeoutMs)];
+    if (conn.signal) {
+      signals.push(conn.signal);
+    }
+
+    let res: Response;
+    let text: string;
+    try {
+      res = await conn.fetch(url, {
+        method,
+        headers: { Authorization: `Bearer ${conn.key}` },
+        body: options?.body,
+        signal: AbortSignal.any(signals),
+      });
+      text = await res.text();
+    } catch (err) {
+      if (
+        conn.signal?.aborted ||
+        (!idempotent && !isConnectionError(err)) ||
+        attempt >= conn.retry.retries
+      ) {
+        throw err;
+      }
+
+      await abortableSleep(backoff(conn.retry, attempt), conn.signal);
+      continue;
+    }
+
+    if (!idempotent && res.status === 503) {
+      throw new FaunaHttpError(
+        res.status,
+        method,
+        url.pathname,
+        text.slice(0, 200),
+      );
+    }
+
+    const retryable = res.status === 429 || (idempotent && res.status >= 500);
+    if (retryable && attempt < conn.retry.retries) {
+      const retryAfter = Number.parseInt(res.headers.get("retry-after"), 10);
+      await abortableSleep(
+        Number.isNaN(retryAfter)
+          ? backoff(conn.retry, attempt)
+          : Math.min(retryAfter * 1000, conn.retry.maxDelayMs),
+        conn.signal,
+      );
+      continue;
+    }
+
+    let json: T;
+    try {
+      json = JSON.parse(text);
+    } catch {
+      throw new FaunaHttpError(
+        res.status,
+        method,
+        url.pathname,
+        text.slice(0, 200),
+      );
+    }
+
+    if (!res.ok && !json?.error && res.status !== 404) {
+      throw new FaunaHttpError(
+        res.status,
+        method,
+        url.pathname,
+        text.slice(0, 200),
+      );
+    }
+
+    return { status: res.status, json };
+  }
+}
+
+export type PushSchemaOptions = {
+  retainRevisions?: number;
+  tempdir?: string;
+
+  /**
+   * Stop after validation without updating the schema.
+   */
+  dryRun?: boolean;
+
+  /**
+   * Only update the schema if it has not changed since the function revisions
+   * were pulled, otherwise throw a `PushSchemaConflictError`.
+   */
+  checkVersion?: boolean;
+
+  /**
+   * Number of times to re-pull the revisions and push again after a conflict.
+   * Implies `checkVersion`.
+   */
+  conflictRetries?: number;
+
+  /**
+   * Called before pushing again after a conflict, with the number of the
+   * retry starting at 1 and the child database if pushing to several.
+   */
+  onConflictRetry?: (
+    attempt: number,
+    retries: number,
+    database?: string,
+  ) => void;
+
+  /**
+   * Stage the schema instead of applying it immediately. Staged schemas are
+   * applied with `commitStagedSchema` once indexes have been built.
+   */
+  staged?: boolean;
+
+  /**
+   * Path of the local ledger that successful pushes are appended to, defaults
+   * to `ledger.jsonl` in the temp dir.
+   */
+  ledger?: false | string;
+
+  /**
+   * The mangled function names returned by `mergeSchemas`, recorded in the
+   * ledger to correlate deploys with app builds.
+   */
+  mangledNames?: Record<string, string>;
+} & SchemaEndpointOptions;
+
+/**
+ * Where to write the outputs generated from a linked schema. This is also the
+ * base of the config file and the rollup plugin options.
+ */
+export interface OutputOptions {
+  /**
+   * Output path for the generated typescript definitions.
+   */
+  dtspath?: string;
+
+  /**
+   * Output path for the function names map file.
+   */
+  fnspath?: string;
+
+  /**
+   * Export typed wrapper functions from the function names map file instead
+   * of the bare mangled names. Collection types are imported from `dtspath`.
+   */
+  typedfns?: boolean;
+
+  /**
+   * Output path for runtime validators of collection fields. A `.json` path
+   * is written as json schema, anything else as a zod module.
+   */
+  validatorspath?: string;
+
+  /**
+   * How functions are renamed when linking, the `versioned` strategy requires
+   * `manifestpath`.
+   */
+  mangling?: Omit<LinkFunctionsOptions, "versions">;
+
+  /**
+   * Path of the link manifest used to keep mangled function names stable,
+   * usually `fauna-functions.lock.json`.
+   */
+  manifestpath?: string;
+
+  schema?: {
+    /**
+     * Output path for the combined fsl file.
+     */
+    path?: false | string;
+    push?: false | PushSchemaOptions | PushSchemaToDatabasesOptions;
+  };
+}
 
 const sourceMapComment =
   "//# sourceMappingURL=data:application/json;charset=utf-8;base64,";
@@ -122,70 +567,84 @@ function fixErrorReferences(
   return out + message.slice(pos);
 }
 
+async function listSchemaFiles(
+  conn: SchemaConnection,
+): Promise<{ version: number; filenames: string[] }> {
+  const { json: files } = await request<
+    ErrorResponse & { version: number; files: Array<{ filename: string }> }
+  >(conn, "GET", "/schema/1/files");
+  if (files.error) {
+    throw new Error(files.error.message);
+  }
+
+  return {
+    version: files.version,
+    filenames: files.files.map((file) => file.filename),
+  };
+}
+
+const revisionFilenamePattern = /^functions_(\d+)\.fsl$/;
+
+function listRevisions(filenames: string[]): number[] {
+  return filenames
+    .flatMap((filename) =>
+      Array.from(filename.match(revisionFilenamePattern) ?? []).slice(1),
+    )
+    .map((revision) => Number.parseInt(revision, 10))
+    .sort((a, b) => a - b);
+}
+
 async function pullSchemaFile(
-  endpoint: string,
-  key: string,
+  conn: SchemaConnection,
   filename: string,
-  destdir: string,
+  destdir?: string,
 ): Promise<Schema | null> {
-  const res = await fetch(
-    new URL(`/schema/1/files/${encodeURIComponent(filename)}`, endpoint),
-    {
-      method: "GET",
-      headers: { Authorization: `Bearer ${key}` },
-    },
+  const { status, json } = await request<ErrorResponse & { content: string }>(
+    conn,
+    "GET",
+    `/schema/1/files/${encodeURIComponent(filename)}`,
   );
 
-  if (res.status === 404) {
+  if (status === 404) {
     return null;
   }
 
-  const json = await res.json();
   if (json.error) {
     throw new Error(`failed to fetch ${filename}: ${json.error.message}`);
   }
 
+  if (!destdir) {
+    return Schema.parse(json.content, filename);
+  }
+
   const diskpath = path.join(destdir, filename);
-  writeIfChanged(diskpath, json.content);
+  await writeIfChanged(diskpath, json.content);
   return Schema.parse(json.content, diskpath);
 }
 
 async function pullRevisionsAndRoles(
-  endpoint: string,
-  key: string,
+  conn: SchemaConnection,
   destdir: string,
-): Promise<{ revisions: Schema[]; roles?: Schema; [Symbol.dispose](): void }> {
-  const filesResponse = await fetch(new URL("/schema/1/files", endpoint), {
-    method: "GET",
-    headers: { Authorization: `Bearer ${key}` },
-  });
-  const files: {
-    files: Array<{ filename: string }>;
-    error?: { message: string };
-  } = await filesResponse.json();
-  if (files.error) {
-    throw new Error(files.error.message);
-  }
+): Promise<{
+  version: number;
+  revisions: Schema[];
+  roles?: Schema;
+  [Symbol.dispose](): void;
+}> {
+  const { version, filenames } = await listSchemaFiles(conn);
 
   await fs.rm(destdir, { force: true, recursive: true });
 
   const revisions = await Promise.all(
-    files.files
-      .flatMap((file) =>
-        Array.from(file.filename.match(/^functions_(\d+)\.fsl$/) ?? []).slice(
-          1,
-        ),
-      )
-      .map((revision) => Number.parseInt(revision, 10))
-      .sort()
-      .map((revision) =>
-        pullSchemaFile(endpoint, key, `functions_${revision}.fsl`, destdir),
-      ),
+    listRevisions(filenames).map((revision) =>
+      pullSchemaFile(conn, `functions_${revision}.fsl`, destdir),
+    ),
   );
 
-  const roles = await pullSchemaFile(endpoint, key, "roles.fsl", destdir);
+  const roles = await pullSchemaFile(conn, "roles.fsl", destdir);
 
   return {
+    version,
     revisions,
     roles,
 
@@ -201,6 +660,224 @@ async function pullRevisionsAndRoles(
   };
 }
 
+const declarationTypeDirs: Record<DeclarationType, string> = {
+  [DeclarationType.ACCESS_PROVIDER]: "access_providers",
+  [DeclarationType.COLLECTION]: "collections",
+  [DeclarationType.FUNCTION]: "functions",
+  [DeclarationType.ROLE]: "roles",
+};
+
+export type PullSchemaOptions = {
+  /**
+   * Directory to write the schema files to.
+   */
+  outdir: string;
+
+  /**
+   * Whether to write one file per declaration (i.e. `functions/myFn.fsl`) or
+   * one file per declaration type (i.e. `functions.fsl`).
+   *
+   * Defaults to `declaration`.
+   */
+  layout?: "declaration" | "type";
+
+  /**
+   * Map of original function names to mangled function names. This is the
+   * same as the output of `linkFunctions`.
+   */
+  mangledNames?: Record<string, string>;
+
+  /**
+   * The link manifest, used like `mangledNames` for the functions it lists.
+   */
+  manifest?: LinkManifest;
+} & SchemaEndpointOptions;
+
+/**
+ * Downloads the schema files from a database and writes them to `outdir` with
+ * the original function names. Only functions that are listed in
+ * `mangledNames` or `manifest` are renamed, since a name like `api_v2` may
+ * just as well be the original name.
+ *
+ * Only the latest function revision is kept. Privileges for functions from
+ * older revisions are removed from roles.
+ *
+ * @returns The paths of the written files.
+ */
+export async function pullSchema(
+  options: PullSchemaOptions,
+): Promise<string[]> {
+  const conn = resolveEndpoint(options);
+
+  const { filenames } = await listSchemaFiles(conn);
+  const [latestRevision, ...oldRevisions] = listRevisions(filenames);
+
+  const pulled = await Promise.all(
+    filenames
+      .filter(
+        (filename) =>
+          !revisionFilenamePattern.test(filename) ||
+          filename === `functions_${latestRevision}.fsl`,
+      )
+      .map((filename) => pullSchemaFile(conn, filename)),
+  );
+
+  using schema = Schema.merge(pulled.filter((schema) => schema !== null));
+
+  const currentFunctionNames = new Set(
+    schema.declarations
+      .filter((d) => d.type === DeclarationType.FUNCTION)
+      .map((d) => d.name),
+  );
+
+  // remove privileges for functions that only exist in older revisions
+  for (const revision of oldRevisions) {
+    using functions = await pullSchemaFile(conn, `functions_${revision}.fsl`);
+    for (const { type, name } of functions?.declarations ?? []) {
+      if (
+        type === DeclarationType.FUNCTION &&
+        !currentFunctionNames.has(name)
+      ) {
+        schema.removeRolesResource(RoleMemberType.PRIVILEGES, name);
+      }
+    }
+  }
+
+  const originalNames: Record<string, string> = {};
+  for (const [original, { mangled }] of Object.entries(
+    options.manifest?.functions ?? {},
+  )) {
+    originalNames[mangled] = original;
+  }
+  for (const [original, mangled] of Object.entries(
+    options.mangledNames ?? {},
+  )) {
+    originalNames[mangled] = original;
+  }
+  for (const name of currentFunctionNames) {
+    originalNames[name] ??= name;
+  }
+
+  schema.renameFunctions(originalNames);
+  schema.sort();
+
+  const files: Record<string, string> = {};
+  for (const type of Object.values(DeclarationType)) {
+    if (options.layout === "type") {
+      using decls = schema.filterByType(type);
+      if (decls.length) {
+        files[`${declarationTypeDirs[type]}.fsl`] = decls.toString();
+      }
+
+      continue;
+    }
+
+    for (const decl of schema.declarations) {
+      if (decl.type !== type) {
+        continue;
+      }
+
+      using decls = schema.filterByName(type, decl.name);
+      files[path.join(declarationTypeDirs[type], `${decl.name}.fsl`)] =
+        decls.toString();
+    }
+  }
+
+  return Promise.all(
+    Object.entries(files).map(async ([filename, content]) => {
+      const filepath = path.join(options.outdir, filename);
+      await writeIfChanged(filepath, content);
+      return filepath;
+    }),
+  );
+}
+
+export interface SchemaRevision {
+  /**
+   * The revision number, where 0 is the newest revision.
+   */
+  revision: number;
+  filename: string;
+  functions: string[];
+
+  /**
+   * The functions of this revision that roles grant privileges on.
+   */
+  referencedByRoles: string[];
+}
+
+/**
+ * Lists the function revisions retained by `pushSchema`, newest first.
+ */
+export async function getSchemaHistory(
+  options: SchemaEndpointOptions,
+): Promise<SchemaRevision[]> {
+  const conn = resolveEndpoint(options);
+  const { filenames } = await listSchemaFiles(conn);
+
+  using roles = await pullSchemaFile(conn, "roles.fsl");
+  const referenced = new Set(
+    (roles?.declarations ?? []).flatMap((decl) =>
+      decl.type === DeclarationType.ROLE
+        ? decl.resources
+            .filter((resource) => resource.type === RoleMemberType.PRIVILEGES)
+            .map((resource) => resource.name)
+        : [],
+    ),
+  );
+
+  return Promise.all(
+    listRevisions(filenames).map(async (revision) => {
+      const filename = `functions_${revision}.fsl`;
+      using functions = await pullSchemaFile(conn, filename);
+      const names = (functions?.declarations ?? [])
+        .filter((decl) => decl.type === DeclarationType.FUNCTION)
+        .map((decl) => decl.name);
+
+      return {
+        revision,
+        filename,
+        functions: names,
+        referencedByRoles: names.filter((name) => referenced.has(name)),
+      };
+    }),
+  );
+}
+
+/**
+ * Pushes the functions of a retained revision as the newest revision, keeping
+ * the current collections, access providers and roles.
+ *
+ * @param revision - The revision number as listed by `getSchemaHistory`.
+ */
+export async function rollbackSchema(
+  revision: number,
+  options: PushSchemaOptions,
+): Promise<PushSchemaResult> {
+  const conn = resolveEndpoint(options);
+  const { filenames } = await listSchemaFiles(conn);
+
+  const revisionFilename = `functions_${revision}.fsl`;
+  if (!filenames.includes(revisionFilename)) {
+    throw new Error(`Revision ${revision} does not exist`);
+  }
+
+  const pulled = await Promise.all(
+    filenames
+      .filter(
+        (filename) =>
+          !revisionFilenamePattern.test(filename) ||
+          filename === revisionFilename,
+      )
+      .map((filename) => pullSchemaFile(conn, filename)),
+  );
+
+  using schema = Schema.merge(pulled.filter((schema) => schema !== null));
+  schema.mergeRoles();
+
+  return pushSchema(schema, options);
+}
+
 async function appendSchemaToBody(
   body: FormData,
   sourcemaps: Map<string, SourceMapConsumer>,
@@ -234,8 +911,22 @@ export class PushSchemaValidationError extends PushSchemaError {
 }
 
 export class PushSchemaUpdateError extends PushSchemaError {
+  constructor(
+    details: string,
+    sourcemaps: Map<string, SourceMapConsumer>,
+    message = "Update failed",
+  ) {
+    super(message, details, sourcemaps);
+  }
+}
+
+/**
+ * Thrown when the schema was changed by someone else between pulling the
+ * function revisions and updating the schema.
+ */
+export class PushSchemaConflictError extends PushSchemaUpdateError {
   constructor(details: string, sourcemaps: Map<string, SourceMapConsumer>) {
-    super("Update failed", details, sourcemaps);
+    super(details, sourcemaps, "Schema changed during push");
   }
 }
 
@@ -243,22 +934,63 @@ export interface PushSchemaResult {
   validationMs: number;
   diff?: string;
   updateMs?: number;
+
+  /**
+   * Map of filenames to the contents that were (or would have been, for dry
+   * runs) pushed.
+   */
+  files: Record<string, string>;
+}
+
+/**
+ * Pushes the schema, retaining older function revisions that are still
+ * deployed.
+ *
+ * With `checkVersion` the update only succeeds if the schema version is the
+ * same as when the revisions were pulled, so concurrent pushes cannot drop
+ * each other's revisions.
+ */
+export function pushSchema(
+  schema: Schema,
+  options: PushSchemaOptions,
+): Promise<PushSchemaResult> {
+  return pushSchemaWithRetries(schema, options);
+}
+
+async function pushSchemaWithRetries(
+  schema: Schema,
+  options: PushSchemaOptions,
+  database?: string,
+): Promise<PushSchemaResult> {
+  const retries = options.conflictRetries ?? 0;
+  for (let attempt = 0; ; attempt++) {
+    try {
+      return await pushSchemaAttempt(schema, options, database);
+    } catch (err) {
+      if (!(err instanceof PushSchemaConflictError) || attempt >= retries) {
+        throw err;
+      }
+
+      options.onConflictRetry?.(attempt + 1, retries, database);
+    }
+  }
 }
 
-export async function pushSchema(
+async function pushSchemaAttempt(
   schema: Schema,
   options: PushSchemaOptions,
+  database?: string,
 ): Promise<PushSchemaResult> {
   const tempdir = options.tempdir || ".fst";
-  const endpoint =
-    (options as { endpoint?: string }).endpoint || "https://db.fauna.com";
-  const key =
-    (options as { key?: string }).key ||
-    (options as { secret?: string }).secret ||
-    "";
+  const conn = resolveEndpoint(options);
   const retain = options.retainRevisions ?? 10;
+  const checkVersion =
+    options.checkVersion || options.conflictRetries !== undefined;
 
-  await fs.rm(tempdir, { recursive: true, force: true });
+  // the version the retained revisions are based on
+  let version: number | undefined;
+
+  await clearPushTempdir(tempdir);
 
   const body = new FormData();
   const sourcemaps = new Map<string, SourceMapConsumer>();
@@ -271,10 +1003,10 @@ export async function pushSchema(
   try {
     if (retain > 0) {
       const saved = await pullRevisionsAndRoles(
-        endpoint,
-        key,
+        conn,
         path.join(tempdir, "pulled"),
       );
+      version = saved.version;
 
       const functions = schema.filterByType(DeclarationType.FUNCTION);
 
@@ -337,6 +1069,10 @@ export async function pushSchema(
         }
       }
     } else {
+      if (checkVersion) {
+        version = (await listSchemaFiles(conn)).version;
+      }
+
       revisions.unshift(schema.filterByType(DeclarationType.FUNCTION));
     }
 
@@ -363,7 +1099,12 @@ export async function pushSchema(
     for (const [i, revision] of revisions
       .filter((schema) => schema.length)
       .entries()) {
-      appendSchemaToBody(body, sourcemaps, revision, `functions_${i}.fsl`);
+      await appendSchemaToBody(
+        body,
+        sourcemaps,
+        revision,
+        `functions_${i}.fsl`,
+      );
     }
   } finally {
     for (const revision of revisions) {
@@ -379,16 +1120,13 @@ export async function pushSchema(
   }
 
   const validationStart = Date.now();
-  const validationResponse = await fetch(
-    new URL("/schema/1/validate?force=true", endpoint),
-    {
-      method: "POST",
-      headers: { Authorization: `Bearer ${key}` },
-      body,
-    },
-  );
-
-  const validation = await validationResponse.json();
+  // validation does not change the schema, so it is safe to retry
+  const { json: validation } = await request<
+    ErrorResponse & { version: number; diff?: string }
+  >(conn, "POST", "/schema/1/validate?force=true", {
+    body,
+    idempotent: true,
+  });
   if (validation.error) {
     throw new PushSchemaValidationError(validation.error.message, sourcemaps);
   }
@@ -396,32 +1134,374 @@ export async function pushSchema(
   const result: PushSchemaResult = {
     validationMs: Date.now() - validationStart,
     diff: validation.diff,
+    files: Object.fromEntries(
+      Array.from(body.entries(), ([filename, content]) => [
+        filename,
+        content as string,
+      ]),
+    ),
   };
 
-  if (validation.diff) {
+  if (validation.diff && !options.dryRun) {
     const updateStart = Date.now();
-    const updateResponse = await fetch(
-      new URL(`/schema/1/update?version=${validation.version}`, endpoint),
-      {
-        method: "POST",
-        headers: { Authorization: `Bearer ${key}` },
-        body,
-      },
+    const { status, json } = await request<
+      ErrorResponse & { version?: number }
+    >(
+      conn,
+      "POST",
+      `/schema/1/update?version=${checkVersion ? version : validation.version}${options.staged ? "&staged=true" : ""}`,
+      { body },
     );
+    if (status === 409 || json.error?.code === "conflict") {
+      throw new PushSchemaConflictError(
+        json.error?.message ?? "conflict",
+        sourcemaps,
+      );
+    }
 
-    const json = await updateResponse.json();
     if (json.error) {
       throw new PushSchemaUpdateError(json.error.message, sourcemaps);
     }
 
     result.updateMs = Date.now() - updateStart;
+
+    if (options.ledger !== false) {
+      await appendPushLedgerEntry(
+        options.ledger || path.join(tempdir, "ledger.jsonl"),
+        {
+          timestamp: new Date().toISOString(),
+          endpoint: conn.endpoint,
+          database,
+          version: json.version,
+          staged: !!options.staged,
+          diff: validation.diff,
+          files: Object.keys(result.files),
+          mangledNames: options.mangledNames,
+        },
+      );
+    }
   }
 
-  await fs.rm(tempdir, { recursive: true, force: true });
+  await clearPushTempdir(tempdir);
 
   return result;
 }
 
+/**
+ * Removes the files pulled and pushed by `pushSchema`, keeping the ledger.
+ */
+async function clearPushTempdir(tempdir: string): Promise<void> {
+  await Promise.all(
+    ["pulled", "pushing"].map((dir) =>
+      fs.rm(path.join(tempdir, dir), { recursive: true, force: true }),
+    ),
+  );
+}
+
+export interface PushLedgerEntry {
+  /**
+   * ISO 8601 time of the push.
+   */
+  timestamp: string;
+  endpoint: string;
+
+  /**
+   * The child database for pushes with `pushSchemaToDatabases`.
+   */
+  database?: string;
+
+  /**
+   * The schema version after the push.
+   */
+  version?: number;
+  staged: boolean;
+
+  /**
+   * Summary of the changes as reported by validation.
+   */
+  diff: string;
+  files: string[];
+  mangledNames?: Record<string, string>;
+}
+
+async function appendPushLedgerEntry(
+  ledger: string,
+  entry: PushLedgerEntry,
+): Promise<void> {
+  await fs.mkdir(path.dirname(ledger), { recursive: true });
+  await fs.appendFile(ledger, `${JSON.stringify(entry)}\n`);
+}
+
+/**
+ * Reads the local ledger of pushes, oldest first.
+ *
+ * @param ledger - Path of the ledger, defaults to `.fst/ledger.jsonl`.
+ */
+export async function readPushLedger(
+  ledger = path.join(".fst", "ledger.jsonl"),
+): Promise<PushLedgerEntry[]> {
+  let content: string;
+  try {
+    content = await fs.readFile(ledger, "utf8");
+  } catch (err) {
+    if ((err as NodeJS.ErrnoException).code === "ENOENT") {
+      return [];
+    }
+
+    throw err;
+  }
+
+  return content
+    .split("\n")
+    .filter((line) => line.trim())
+    .map((line) => JSON.parse(line));
+}
+
+/**
+ * Stages the schema, see `pushSchema`.
+ */
+export function stageSchema(
+  schema: Schema,
+  options: PushSchemaOptions,
+): Promise<PushSchemaResult> {
+  return pushSchema(schema, { ...options, staged: true });
+}
+
+/**
+ * A child database path like `tenants/acme`, which is pushed to with a scoped
+ * key derived from the key in the options, or explicit connection options.
+ */
+export type SchemaDatabase =
+  | string
+  | ({ name?: string } & SchemaEndpointOptions);
+
+export type PushSchemaToDatabasesOptions = PushSchemaOptions & {
+  databases: SchemaDatabase[];
+
+  /**
+   * Maximum number of databases pushed to at the same time, defaults to 4.
+   */
+  concurrency?: number;
+
+  /**
+   * Keep pushing to the remaining databases after a push failed. Otherwise
+   * databases that were not started yet are skipped.
+   */
+  continueOnError?: boolean;
+};
+
+export interface DatabasePushResult {
+  database: string;
+  status: "pushed" | "failed" | "skipped";
+  result?: PushSchemaResult;
+  error?: unknown;
+}
+
+export interface PushSchemaToDatabasesResult {
+  results: DatabasePushResult[];
+  pushed: number;
+  failed: number;
+  skipped: number;
+}
+
+/**
+ * Derives a key for a child database from a parent database key, e.g.
+ * `secret:tenants/acme:admin`.
+ */
+function scopedKey(key: string, database: string, role = "admin"): string {
+  return `${key}:${database.replace(/^\/+|\/+$/g, "")}:${role}`;
+}
+
+/**
+ * Pushes the same schema to several databases.
+ *
+ * Failures are reported in the results instead of being thrown.
+ */
+export async function pushSchemaToDatabases(
+  schema: Schema,
+  options: PushSchemaToDatabasesOptions,
+): Promise<PushSchemaToDatabasesResult> {
+  const {
+    databases,
+    concurrency = 4,
+    continueOnError,
+    ...pushOptions
+  } = options;
+  const tempdir = options.tempdir || ".fst";
+  const parent = resolveEndpoint(options);
+
+  // the parent connection is only used for databases given by name, a
+  // database object with a secret must not get the parent key or endpoint
+  const {
+    key: _key,
+    secret: _secret,
+    endpoint: _endpoint,
+    ...sharedOptions
+  } = pushOptions as typeof pushOptions & {
+    key?: string;
+    secret?: string;
+    endpoint?: string;
+  };
+
+  const results: DatabasePushResult[] = databases.map((database, i) => ({
+    database:
+      typeof database === "string"
+        ? database
+        : database.name ||
+          (database as { endpoint?: string }).endpoint ||
+          `database ${i}`,
+    status: "skipped",
+  }));
+
+  let next = 0;
+  let stopped = false;
+  async function worker(): Promise<void> {
+    while (!stopped && next < databases.length) {
+      const i = next++;
+      const database = databases[i];
+      const endpointOptions: SchemaEndpointOptions =
+        typeof database === "string"
+          ? {
+              endpoint: parent.endpoint,
+              key: scopedKey(parent.key, database),
+              fetch: parent.fetch,
+            }
+          : { fetch: parent.fetch, ...database };
+
+      try {
+        results[i].result = await pushSchemaWithRetries(
+          schema,
+          {
+            ...sharedOptions,
+            ...endpointOptions,
+            // concurrent pushes must not share the temp dir, but do share the ledger
+            tempdir: path.join(tempdir, i.toString()),
+            ledger: options.ledger ?? path.join(tempdir, "ledger.jsonl"),
+          },
+          results[i].database,
+        );
+        results[i].status = "pushed";
+      } catch (err) {
+        results[i].status = "failed";
+        results[i].error = err;
+        if (!continueOnError) {
+          stopped = true;
+        }
+      }
+    }
+  }
+
+  await Promise.all(
+    Array.from(
+      { length: Math.max(1, Math.min(concurrency, databases.length)) },
+      worker,
+    ),
+  );
+
+  await Promise.all(
+    databases.map((_, i) =>
+      fs.rm(path.join(tempdir, i.toString()), {
+        recursive: true,
+        force: true,
+      }),
+    ),
+  );
+
+  return {
+    results,
+    pushed: results.filter((r) => r.status === "pushed").length,
+    failed: results.filter((r) => r.status === "failed").length,
+    skipped: results.filter((r) => r.status === "skipped").length,
+  };
+}
+
+export interface StagedSchemaStatus {
+  /**
+   * `pending` while indexes are being built, after which the staged schema is
+   * `ready` to be committed.
+   */
+  status: "none" | "pending" | "ready" | "failed";
+  version: number;
+
+  /**
+   * Summary of the changes between the active and the staged schema.
+   */
+  diff?: string;
+}
+
+export async function getStagedStatus(
+  options: SchemaEndpointOptions,
+): Promise<StagedSchemaStatus> {
+  const conn = resolveEndpoint(options);
+  const { json } = await request<ErrorResponse & StagedSchemaStatus>(
+    conn,
+    "GET",
+    "/schema/1/staged/status?diff=summary",
+  );
+  if (json.error) {
+    throw new PushSchemaError(
+      "Failed to get staged schema status",
+      json.error.message,
+      new Map(),
+    );
+  }
+
+  return { status: json.status, version: json.version, diff: json.diff };
+}
+
+async function postStagedAction(
+  action: "commit" | "abandon",
+  options: SchemaEndpointOptions & { version?: number },
+): Promise<number> {
+  const conn = resolveEndpoint(options);
+  const version = options.version ?? (await getStagedStatus(options)).version;
+  const { status, json } = await request<ErrorResponse & { version: number }>(
+    conn,
+    "POST",
+    `/schema/1/staged/${action}?version=${version}`,
+  );
+  if (status === 409 || json.error?.code === "conflict") {
+    throw new PushSchemaConflictError(
+      json.error?.message ?? "conflict",
+      new Map(),
+    );
+  }
+
+  if (json.error) {
+    throw new PushSchemaError(
+      `Failed to ${action} staged schema`,
+      json.error.message,
+      new Map(),
+    );
+  }
+
+  return json.version;
+}
+
+/**
+ * Applies the staged schema.
+ *
+ * @param options.version - The staged version to commit, fails if the staged schema changed since. Defaults to the current staged version.
+ * @returns The new schema version.
+ */
+export function commitStagedSchema(
+  options: SchemaEndpointOptions & { version?: number },
+): Promise<number> {
+  return postStagedAction("commit", options);
+}
+
+/**
+ * Discards the staged schema.
+ *
+ * @param options.version - The staged version to abandon, fails if the staged schema changed since. Defaults to the current staged version.
+ * @returns The schema version after abandoning.
+ */
+export function abandonStagedSchema(
+  options: SchemaEndpointOptions & { version?: number },
+): Promise<number> {
+  return postStagedAction("abandon", options);
+}
+
 export async function writeIfChanged(
   filepath: string,
   content: string,
@@ -446,42 +1526,287 @@ export async function writeIfChanged(
 
 export function mergeSchemas(
   schemas: Iterable<Schema>,
+  linkOptions?: LinkFunctionsOptions,
 ): [mergedSchema: Schema, mangledNames: Record<string, string>] {
   const merged = Schema.merge(Array.from(schemas, (schema) => schema.clone()));
 
-  const mangledNames = merged.linkFunctions();
+  const mangledNames = merged.linkFunctions(linkOptions);
   merged.mergeRoles();
   merged.sort();
 
   return [merged, mangledNames];
 }
 
-export async function loadSchemas(
+/**
+ * Like `mergeSchemas`, but keeps the mangled names from the manifest for
+ * functions that only changed in ways that do not affect their behavior.
+ *
+ * @returns The merged schema, the mangled names, the updated manifest and the functions whose identity changed.
+ */
+export function mergeSchemasWithManifest(
+  schemas: Iterable<Schema>,
+  manifest: LinkManifest,
+  linkOptions?: Omit<LinkFunctionsOptions, "versions">,
+): [
+  mergedSchema: Schema,
+  mangledNames: Record<string, string>,
+  manifest: LinkManifest,
+  report: LinkManifestReport,
+] {
+  const merged = Schema.merge(Array.from(schemas, (schema) => schema.clone()));
+
+  try {
+    const [mangledNames, updated, report] = linkFunctionsWithManifest(
+      merged,
+      manifest,
+      linkOptions,
+    );
+    merged.mergeRoles();
+    merged.sort();
+
+    return [merged, mangledNames, updated, report];
+  } catch (err) {
+    merged.free();
+    throw err;
+  }
+}
+
+export function writeLinkManifest(
+  filepath: string,
+  manifest: LinkManifest,
+): Promise<boolean> {
+  return writeIfChanged(filepath, stringifyLinkManifest(manifest));
+}
+
+export interface SchemaDeclarationRef {
+  type: DeclarationType;
+  name: string;
+}
+
+export interface SchemaDiff {
+  added: SchemaDeclarationRef[];
+  removed: SchemaDeclarationRef[];
+  modified: Array<SchemaDeclarationRef & { diff: string }>;
+}
+
+function printDeclarations(schema: Schema): Map<string, string> {
+  const printed = new Map<string, string>();
+  for (const { type, name, content } of schema.printDeclarations()) {
+    const key = `${type} ${name}`;
+    const prev = printed.get(key);
+    printed.set(key, prev === undefined ? content : `${prev}\n${content}`);
+  }
+
+  return printed;
+}
+
+function diffLines(
+  a: string[],
+  b: string[],
+): Array<[op: string, line: string]> {
+  // lengths of the longest common subsequences of every pair of suffixes
+  const lcs = Array.from({ length: a.length + 1 }, () =>
+    new Array<number>(b.length + 1).fill(0),
+  );
+  for (let i = a.length - 1; i >= 0; i--) {
+    for (let j = b.length - 1; j >= 0; j--) {
+      lcs[i][j] =
+        a[i] === b[j]
+          ? lcs[i + 1][j + 1] + 1
+          : Math.max(lcs[i + 1][j], lcs[i][j + 1]);
+    }
+  }
+
+  const ops: Array<[op: string, line: string]> = [];
+  let i = 0;
+  let j = 0;
+  while (i < a.length && j < b.length) {
+    if (a[i] === b[j]) {
+      ops.push([" ", a[i]]);
+      i += 1;
+      j += 1;
+    } else if (lcs[i + 1][j] >= lcs[i][j + 1]) {
+      ops.push(["-", a[i]]);
+      i += 1;
+    } else {
+      ops.push(["+", b[j]]);
+      j += 1;
+    }
+  }
+
+  for (; i < a.length; i++) {
+    ops.push(["-", a[i]]);
+  }
+
+  for (; j < b.length; j++) {
+    ops.push(["+", b[j]]);
+  }
+
+  return ops;
+}
+
+function unifiedDiff(
+  a: string,
+  b: string,
+  aname: string,
+  bname: string,
+  context = 3,
+): string {
+  const ops = diffLines(a.trimEnd().split("\n"), b.trimEnd().split("\n"));
+
+  // merge the changed lines and their surrounding context into hunks
+  const hunks: Array<[start: number, end: number]> = [];
+  for (const [i, [op]] of ops.entries()) {
+    if (op === " ") {
+      continue;
+    }
+
+    const start = Math.max(0, i - context);
+    const end = Math.min(ops.length, i + context + 1);
+    const last = hunks.at(-1);
+    if (last && start <= last[1]) {
+      last[1] = end;
+    } else {
+      hunks.push([start, end]);
+    }
+  }
+
+  if (!hunks.length) {
+    return "";
+  }
+
+  const positions: Array<[aline: number, bline: number]> = [];
+  let aline = 1;
+  let bline = 1;
+  for (const [op] of ops) {
+    positions.push([aline, bline]);
+    if (op !== "+") {
+      aline += 1;
+    }
+    if (op !== "-") {
+      bline += 1;
+    }
+  }
+
+  let out = `--- ${aname}\n+++ ${bname}\n`;
+  for (const [start, end] of hunks) {
+    const lines = ops.slice(start, end);
+    const acount = lines.filter(([op]) => op !== "+").length;
+    const bcount = lines.filter(([op]) => op !== "-").length;
+    const [astart, bstart] = positions[start];
+    out += `@@ -${acount ? astart : astart - 1},${acount} +${bcount ? bstart : bstart - 1},${bcount} @@\n`;
+    for (const [op, line] of lines) {
+      out += `${op}${line}\n`;
+    }
+  }
+
+  return out;
+}
+
+/**
+ * Compares the declarations of two schemas by their canonical representation.
+ */
+export function diffSchemas(a: Schema, b: Schema): SchemaDiff {
+  const before = printDeclarations(a);
+  const after = printDeclarations(b);
+
+  const result: SchemaDiff = { added: [], removed: [], modified: [] };
+  for (const key of new Set([...before.keys(), ...after.keys()])) {
+    const [type, name] = key.split(" ") as [DeclarationType, string];
+    const prev = before.get(key);
+    const next = after.get(key);
+    if (prev === undefined) {
+      result.added.push({ type, name });
+    } else if (next === undefined) {
+      result.removed.push({ type, name });
+    } else if (prev !== next) {
+      result.modified.push({
+        type,
+        name,
+        diff: unifiedDiff(prev, next, `a/${type}/${name}`, `b/${type}/${name}`),
+      });
+    }
+  }
+
+  const compare = (x: SchemaDeclarationRef, y: SchemaDeclarationRef) =>
+    x.type.localeCompare(y.type) || x.name.localeCompare(y.name);
+  result.added.sort(compare);
+  result.removed.sort(compare);
+  result.modified.sort(compare);
+
+  return result;
+}
+
+/**
+ * Lists the files matching the schema paths.
+ */
+export async function findSchemaFiles(
   schemapaths: string | string[],
-): Promise<Record<string, Schema>> {
+): Promise<string[]> {
   const matches = anymatch(schemapaths);
-  return Object.fromEntries(
+  return (
     await Promise.all(
-      (
-        await Promise.all(
-          Array.from(
-            new Set(
-              (Array.isArray(schemapaths) ? schemapaths : [schemapaths]).map(
-                (p) => globParent(p),
-              ),
-            ),
-            async (p) =>
-              (
-                await fs.readdir(p, { withFileTypes: true, recursive: true })
-              ).map((entry) => path.join(entry.parentPath, entry.name)),
+      Array.from(
+        new Set(
+          (Array.isArray(schemapaths) ? schemapaths : [schemapaths]).map((p) =>
+            globParent(p),
           ),
-        )
-      )
-        .flat()
-        .filter((p) => matches(p))
-        .map(async (p) => [p, Schema.parse(await fs.readFile(p, "utf8"), p)]),
+        ),
+        async (p) =>
+          (
+            await fs.readdir(p, { withFileTypes: true, recursive: true })
+          ).map((entry) => path.join(entry.parentPath, entry.name)),
+      ),
+    )
+  )
+    .flat()
+    .filter((p) => matches(p));
+}
+
+/**
+ * Parses all schema files matching the paths.
+ *
+ * Throws a `SchemaParseError` with the diagnostics of every file that failed
+ * to parse if there are any.
+ */
+export async function loadSchemas(
+  schemapaths: string | string[],
+): Promise<Record<string, Schema>> {
+  const results = await Promise.allSettled(
+    (await findSchemaFiles(schemapaths)).map(
+      async (p) => [p, Schema.parse(await fs.readFile(p, "utf8"), p)] as const,
     ),
   );
+
+  const schemas = results.flatMap((result) =>
+    result.status === "fulfilled" ? [result.value] : [],
+  );
+  if (schemas.length === results.length) {
+    return Object.fromEntries(schemas);
+  }
+
+  for (const [, schema] of schemas) {
+    schema.free();
+  }
+
+  const errors = results.flatMap((result) =>
+    result.status === "rejected" ? [result.reason] : [],
+  );
+  const nonParseError = errors.find(
+    (err) => !(err instanceof SchemaParseError),
+  );
+  if (nonParseError) {
+    throw nonParseError;
+  }
+
+  const diagnostics = errors.flatMap(
+    (err: SchemaParseError) => err.diagnostics,
+  );
+  const files = new Set(diagnostics.map((diagnostic) => diagnostic.file));
+  throw new SchemaParseError(
+    `Failed to parse ${files.size} schema files`,
+    diagnostics,
+  );
 }
 
 export async function pushMergedSchemas(
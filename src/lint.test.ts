@@ -0,0 +1,207 @@
+import { beforeAll, describe, expect, it } from "vitest";
+import { initWasm } from "./lib";
+import { type LintMessage, type LintRules, lintSchema } from "./lint";
+import { DeclarationType, Schema } from "./schema";
+
+beforeAll(() => initWasm());
+
+function lint(sources: string[], rules?: LintRules): LintMessage[] {
+  const [first, ...others] = sources.map((source, i) =>
+    Schema.parse(source, `schema${i}.fsl`),
+  );
+  try {
+    first.merge(others);
+    return lintSchema(first, rules);
+  } finally {
+    for (const schema of [first, ...others]) {
+      schema.free();
+    }
+  }
+}
+
+function rulesOf(messages: LintMessage[]): string[] {
+  return messages.map((message) => message.rule);
+}
+
+const user = "collection User {\n  name: String\n}\n";
+
+describe("lintSchema", () => {
+  describe("missing-resource", () => {
+    it("reports roles that refer to undeclared resources", () => {
+      const messages = lint([
+        `${user}
+role reader {
+  privileges Post {
+    read
+  }
+  membership helper
+}
+
+function helper() {
+  1
+}
+`,
+      ]);
+
+      expect(messages).toEqual([
+        expect.objectContaining({
+          rule: "missing-resource",
+          severity: "error",
+          type: DeclarationType.ROLE,
+          name: "reader",
+          message: expect.stringContaining(
+            "undeclared collection or function Post",
+          ),
+        }),
+        expect.objectContaining({
+          rule: "missing-resource",
+          message: expect.stringContaining("undeclared collection helper"),
+        }),
+      ]);
+    });
+
+    it("accepts declared and builtin collections and functions", () => {
+      const messages = lint([
+        `${user}
+role reader {
+  privileges User {
+    read
+  }
+  privileges Key {
+    read
+  }
+  privileges helper {
+    call
+  }
+  membership User
+}
+
+function helper() {
+  1
+}
+`,
+      ]);
+
+      expect(rulesOf(messages)).not.toContain("missing-resource");
+    });
+  });
+
+  describe("undeclared-function", () => {
+    it("reports calls to functions that are not declared", () => {
+      const messages = lint(["function caller() {\n  missing(1)\n}\n"]);
+
+      expect(messages).toEqual([
+        expect.objectContaining({
+          rule: "undeclared-function",
+          type: DeclarationType.FUNCTION,
+          name: "caller",
+          message: "calls undeclared function missing",
+        }),
+      ]);
+    });
+
+    it("accepts declared functions, collections and builtins", () => {
+      const messages = lint([
+        `${user}
+function helper() {
+  1
+}
+
+function caller() {
+  log(helper())
+  User.all()
+  Time.now()
+}
+`,
+      ]);
+
+      expect(rulesOf(messages)).not.toContain("undeclared-function");
+    });
+  });
+
+  describe("empty-collection", () => {
+    it("warns about collections without fields", () => {
+      const messages = lint(["collection Empty {}\n"]);
+
+      expect(messages).toEqual([
+        expect.objectContaining({
+          rule: "empty-collection",
+          severity: "warning",
+          type: DeclarationType.COLLECTION,
+          name: "Empty",
+        }),
+      ]);
+    });
+
+    it("accepts collections with fields", () => {
+      expect(rulesOf(lint([user]))).not.toContain("empty-collection");
+    });
+  });
+
+  describe("duplicate-declaration", () => {
+    it("reports declarations with different bodies in several files", () => {
+      const messages = lint([
+        "function helper() {\n  1\n}\n",
+        "function helper() {\n  2\n}\n",
+      ]);
+
+      expect(messages).toEqual([
+        expect.objectContaining({
+          rule: "duplicate-declaration",
+          type: DeclarationType.FUNCTION,
+          name: "helper",
+          message: "declared 2 times with different bodies",
+        }),
+      ]);
+    });
+
+    it("accepts identical declarations and roles declared in several files", () => {
+      const messages = lint([
+        `${user}\nrole reader {\n  privileges User {\n    read\n  }\n}\n`,
+        `${user}\nrole reader {\n  privileges User {\n    create\n  }\n}\n`,
+      ]);
+
+      expect(rulesOf(messages)).not.toContain("duplicate-declaration");
+    });
+  });
+
+  describe("function-cycle", () => {
+    it("warns about functions that depend on each other", () => {
+      const messages = lint([
+        "function ping() {\n  pong()\n}\n\nfunction pong() {\n  ping()\n}\n",
+      ]);
+
+      expect(messages).toHaveLength(1);
+      expect(messages[0]).toMatchObject({
+        rule: "function-cycle",
+        severity: "warning",
+        type: DeclarationType.FUNCTION,
+      });
+      expect(messages[0].message).toMatch(
+        /ping -> pong -> ping|pong -> ping -> pong/,
+      );
+    });
+
+    it("accepts functions without cycles", () => {
+      const messages = lint([
+        "function ping() {\n  pong()\n}\n\nfunction pong() {\n  1\n}\n",
+      ]);
+
+      expect(rulesOf(messages)).not.toContain("function-cycle");
+    });
+  });
+
+  it("applies the configured severities", () => {
+    const source =
+      "collection Empty {}\n\nfunction caller() {\n  missing()\n}\n";
+
+    expect(
+      lint([source], {
+        "empty-collection": "error",
+        "undeclared-function": "off",
+      }),
+    ).toEqual([
+      expect.objectContaining({ rule: "empty-collection", severity: "error" }),
+    ]);
+  });
+});
@@ -0,0 +1,171 @@
+import { DeclarationType, RoleMemberType, type Schema } from "./schema";
+
+export type LintRule =
+  | "missing-resource"
+  | "undeclared-function"
+  | "empty-collection"
+  | "duplicate-declaration"
+  | "function-cycle";
+
+export type LintSeverity = "error" | "warning";
+
+export interface LintMessage {
+  rule: LintRule;
+  severity: LintSeverity;
+  type: DeclarationType;
+  name: string;
+  message: string;
+}
+
+export type LintRules = Partial<Record<LintRule, LintSeverity | "off">>;
+
+const defaultRules: Record<LintRule, LintSeverity | "off"> = {
+  "missing-resource": "error",
+  "undeclared-function": "error",
+  "empty-collection": "warning",
+  "duplicate-declaration": "error",
+  "function-cycle": "warning",
+};
+
+const builtinCollections = new Set([
+  "AccessProvider",
+  "Collection",
+  "Credential",
+  "Database",
+  "Function",
+  "Key",
+  "Role",
+  "Token",
+]);
+
+const builtinFunctions = new Set([
+  "abort",
+  "dbg",
+  "log",
+  "newId",
+  "Bytes",
+  "Date",
+  "ID",
+  "Time",
+  "TransactionTime",
+]);
+
+/**
+ * Runs static checks over a merged schema.
+ *
+ * The schema should not be linked, otherwise duplicate functions will have
+ * different names and no longer be detected.
+ */
+export function lintSchema(schema: Schema, rules?: LintRules): LintMessage[] {
+  const severities = { ...defaultRules, ...rules };
+  const messages: LintMessage[] = [];
+  function report(
+    rule: LintRule,
+    type: DeclarationType,
+    name: string,
+    message: string,
+  ): void {
+    const severity = severities[rule];
+    if (severity !== "off") {
+      messages.push({ rule, severity, type, name, message });
+    }
+  }
+
+  const declarations = schema.declarations;
+  const collectionNames = new Set(
+    declarations
+      .filter((d) => d.type === DeclarationType.COLLECTION)
+      .map((d) => d.name),
+  );
+  const functionNames = new Set(
+    declarations
+      .filter((d) => d.type === DeclarationType.FUNCTION)
+      .map((d) => d.name),
+  );
+
+  for (const decl of declarations) {
+    if (decl.type !== DeclarationType.ROLE) {
+      continue;
+    }
+
+    for (const resource of decl.resources) {
+      if (
+        builtinCollections.has(resource.name) ||
+        collectionNames.has(resource.name) ||
+        (resource.type === RoleMemberType.PRIVILEGES &&
+          functionNames.has(resource.name))
+      ) {
+        continue;
+      }
+
+      report(
+        "missing-resource",
+        decl.type,
+        decl.name,
+        `${resource.type} refers to undeclared ${resource.type === RoleMemberType.PRIVILEGES ? "collection or function" : "collection"} ${resource.name}`,
+      );
+    }
+  }
+
+  for (const {
+    type,
+    name,
+    undeclaredCalls,
+  } of schema.getFunctionReferences()) {
+    for (const called of undeclaredCalls) {
+      if (
+        !collectionNames.has(called) &&
+        !builtinFunctions.has(called) &&
+        !builtinCollections.has(called)
+      ) {
+        report(
+          "undeclared-function",
+          type,
+          name,
+          `calls undeclared function ${called}`,
+        );
+      }
+    }
+  }
+
+  const printed = new Map<string, string[]>();
+  for (const { type, name, content } of schema.printDeclarations()) {
+    const key = `${type} ${name}`;
+    printed.set(key, [...(printed.get(key) ?? []), content]);
+  }
+
+  for (const [key, contents] of printed) {
+    const [type, name] = key.split(" ") as [DeclarationType, string];
+    if (type !== DeclarationType.ROLE && new Set(contents).size > 1) {
+      report(
+        "duplicate-declaration",
+        type,
+        name,
+        `declared ${contents.length} times with different bodies`,
+      );
+    }
+  }
+
+  // collections without fields are typed as `[name: string]: any`
+  for (const name of collectionNames) {
+    if (!schema.getCollection(name).fields.length) {
+      report(
+        "empty-collection",
+        DeclarationType.COLLECTION,
+        name,
+        "has no fields",
+      );
+    }
+  }
+
+  for (const cycle of schema.findFunctionCycles()) {
+    report(
+      "function-cycle",
+      DeclarationType.FUNCTION,
+      cycle[0],
+      `is part of a dependency cycle: ${[...cycle, cycle[0]].join(" -> ")}`,
+    );
+  }
+
+  return messages;
+}
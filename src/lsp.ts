@@ -0,0 +1,758 @@
+import * as fs from "node:fs/promises";
+import * as path from "node:path";
+import { fileURLToPath, pathToFileURL } from "node:url";
+import { loadConfig } from "./config";
+import { findSchemaFiles } from "./lib";
+import { lintSchema } from "./lint";
+import {
+  DeclarationType,
+  Schema,
+  SchemaError,
+  type SchemaDiagnostic,
+} from "./schema";
+
+interface Position {
+  /**
+   * 0-based line number.
+   */
+  line: number;
+
+  /**
+   * 0-based offset in UTF-16 code units.
+   */
+  character: number;
+}
+
+interface Range {
+  start: Position;
+  end: Position;
+}
+
+interface Location {
+  uri: string;
+  range: Range;
+}
+
+interface Diagnostic {
+  range: Range;
+  severity: number;
+  code?: string;
+  source: string;
+  message: string;
+}
+
+interface TextDocumentIdentifier {
+  uri: string;
+}
+
+interface TextDocumentPositionParams {
+  textDocument: TextDocumentIdentifier;
+  position: Position;
+}
+
+interface InitializeParams {
+  rootUri?: string | null;
+  rootPath?: string | null;
+}
+
+interface Message {
+  jsonrpc: "2.0";
+  id?: number | string | null;
+  method?: string;
+  params?: unknown;
+  result?: unknown;
+  error?: { code: number; message: string };
+}
+
+const ErrorCodes = {
+  MethodNotFound: -32601,
+  InternalError: -32603,
+  RequestFailed: -32803,
+} as const;
+
+const DiagnosticSeverity = { error: 1, warning: 2 } as const;
+
+const CompletionItemKind = { Function: 3, Class: 7 } as const;
+
+class ResponseError extends Error {
+  constructor(
+    public readonly code: number,
+    message: string,
+  ) {
+    super(message);
+  }
+}
+
+export interface LanguageServerOptions {
+  /**
+   * Defaults to stdin.
+   */
+  input?: NodeJS.ReadableStream;
+
+  /**
+   * Defaults to stdout.
+   */
+  output?: NodeJS.WritableStream;
+
+  /**
+   * Schema files to load on startup, defaults to `schemapaths` from the
+   * config file or all `.fsl` files in the workspace.
+   */
+  schemapaths?: string[];
+}
+
+interface SchemaDocument {
+  content: string;
+
+  /**
+   * `null` if the document fails to parse.
+   */
+  tree: Schema | null;
+  diagnostics: SchemaDiagnostic[];
+
+  /**
+   * Open documents are updated by the editor, the others are read from disk.
+   */
+  open: boolean;
+}
+
+interface DeclarationLocation {
+  type: DeclarationType;
+  name: string;
+  filename: string;
+
+  /**
+   * Offset of the declaration keyword.
+   */
+  start: number;
+
+  /**
+   * Offset of the declaration name.
+   */
+  nameStart: number;
+}
+
+/**
+ * Replaces strings and comments with spaces so that offsets stay intact.
+ */
+function maskNonCode(content: string): string {
+  return content.replace(
+    /"(?:[^"\\]|\\.)*"|'(?:[^'\\]|\\.)*'|\/\/[^\n]*|\/\*[\s\S]*?\*\//g,
+    (match) => match.replace(/[^\n]/g, " "),
+  );
+}
+
+function positionAt(content: string, offset: number): Position {
+  const lines = content.slice(0, offset).split("\n");
+  return { line: lines.length - 1, character: lines[lines.length - 1].length };
+}
+
+function offsetAt(content: string, position: Position): number {
+  let offset = 0;
+  for (let line = 0; line < position.line; line++) {
+    const next = content.indexOf("\n", offset);
+    if (next === -1) {
+      return content.length;
+    }
+
+    offset = next + 1;
+  }
+
+  return Math.min(offset + position.character, content.length);
+}
+
+function rangeOf(content: string, start: number, end: number): Range {
+  return { start: positionAt(content, start), end: positionAt(content, end) };
+}
+
+function wordAt(content: string, offset: number): string | null {
+  let start = offset;
+  while (start > 0 && /[\w$]/.test(content[start - 1])) {
+    start--;
+  }
+
+  let end = offset;
+  while (end < content.length && /[\w$]/.test(content[end])) {
+    end++;
+  }
+
+  return start < end ? content.slice(start, end) : null;
+}
+
+/**
+ * Finds the top level declarations with a regex, so that it also works for
+ * documents that do not parse.
+ */
+function findDeclarations(
+  filename: string,
+  content: string,
+): DeclarationLocation[] {
+  const code = maskNonCode(content);
+  const declarations: DeclarationLocation[] = [];
+
+  let depth = 0;
+  let offset = 0;
+  for (const match of code.matchAll(
+    /\b(function|collection|role|access\s+provider)\s+([\w$]+)/g,
+  )) {
+    for (; offset < match.index; offset++) {
+      if (code[offset] === "{") {
+        depth++;
+      } else if (code[offset] === "}") {
+        depth--;
+      }
+    }
+
+    if (depth !== 0) {
+      continue;
+    }
+
+    declarations.push({
+      type: match[1].startsWith("access")
+        ? DeclarationType.ACCESS_PROVIDER
+        : (match[1] as DeclarationType),
+      name: match[2],
+      filename,
+      start: match.index,
+      nameStart: match.index + match[0].length - match[2].length,
+    });
+  }
+
+  return declarations;
+}
+
+/**
+ * Returns the offsets of all references to a name that are not member
+ * accesses like `doc.name`.
+ */
+function findReferences(content: string, name: string): number[] {
+  const pattern = new RegExp(
+    `(?<![\\w$.])${name.replace(/\$/g, "\\$")}(?![\\w$])`,
+    "g",
+  );
+  return Array.from(maskNonCode(content).matchAll(pattern), (m) => m.index);
+}
+
+/**
+ * Implements the language server protocol for a set of schema files, see
+ * `startLanguageServer`.
+ */
+class SchemaLanguageServer {
+  readonly #documents = new Map<string, SchemaDocument>();
+  readonly #send: (message: Message) => void;
+  readonly #options: LanguageServerOptions;
+  #shutdown = false;
+
+  /**
+   * Called with the exit code when the client sends `exit`.
+   */
+  public onExit: (code: number) => void = () => {};
+
+  readonly #handlers: Record<string, (params: never) => unknown> = {
+    initialize: (params: InitializeParams) => this.#initialize(params),
+    initialized: () => {},
+    shutdown: () => {
+      this.#shutdown = true;
+      return null;
+    },
+    exit: () => this.onExit(this.#shutdown ? 0 : 1),
+    "textDocument/didOpen": (params: {
+      textDocument: { uri: string; text: string };
+    }) => this.#update(params.textDocument.uri, params.textDocument.text, true),
+    "textDocument/didChange": (params: {
+      textDocument: TextDocumentIdentifier;
+      contentChanges: Array<{ text: string }>;
+    }) =>
+      this.#update(
+        params.textDocument.uri,
+        params.contentChanges[params.contentChanges.length - 1].text,
+        true,
+      ),
+    "textDocument/didSave": () => {},
+    "textDocument/didClose": (params: {
+      textDocument: TextDocumentIdentifier;
+    }) => this.#close(params.textDocument.uri),
+    "textDocument/formatting": (params: {
+      textDocument: TextDocumentIdentifier;
+    }) => this.#format(params.textDocument.uri),
+    "textDocument/definition": (params: TextDocumentPositionParams) =>
+      this.#definition(params),
+    "textDocument/references": (
+      params: TextDocumentPositionParams & {
+        context?: { includeDeclaration?: boolean };
+      },
+    ) => this.#references(params),
+    "textDocument/hover": (params: TextDocumentPositionParams) =>
+      this.#hover(params),
+    "textDocument/completion": (params: TextDocumentPositionParams) =>
+      this.#completion(params),
+  };
+
+  constructor(
+    send: (message: Message) => void,
+    options: LanguageServerOptions = {},
+  ) {
+    this.#send = send;
+    this.#options = options;
+  }
+
+  public async handle(message: Message): Promise<void> {
+    // the server does not send requests, so there are no responses to handle
+    if (message.method === undefined) {
+      return;
+    }
+
+    const isRequest = message.id !== undefined;
+    const handler = this.#handlers[message.method];
+    if (!handler) {
+      if (isRequest) {
+        this.#send({
+          jsonrpc: "2.0",
+          id: message.id,
+          error: {
+            code: ErrorCodes.MethodNotFound,
+            message: `Unhandled method ${message.method}`,
+          },
+        });
+      }
+
+      return;
+    }
+
+    try {
+      const result = await handler(message.params as never);
+      if (isRequest) {
+        this.#send({ jsonrpc: "2.0", id: message.id, result: result ?? null });
+      }
+    } catch (err) {
+      if (isRequest) {
+        this.#send({
+          jsonrpc: "2.0",
+          id: message.id,
+          error: {
+            code:
+              err instanceof ResponseError
+                ? err.code
+                : ErrorCodes.InternalError,
+            message: err instanceof Error ? err.message : String(err),
+          },
+        });
+      } else {
+        this.#log(String(err));
+      }
+    }
+  }
+
+  public free(): void {
+    for (const document of this.#documents.values()) {
+      document.tree?.free();
+    }
+
+    this.#documents.clear();
+  }
+
+  #log(message: string): void {
+    this.#send({
+      jsonrpc: "2.0",
+      method: "window/logMessage",
+      params: { type: 1, message },
+    });
+  }
+
+  async #initialize(params: InitializeParams) {
+    const root = params.rootUri
+      ? fileURLToPath(params.rootUri)
+      : (params.rootPath ?? process.cwd());
+
+    const schemapaths = this.#options.schemapaths ??
+      (await loadConfig(root))?.config.schemapaths ?? [
+        path.join(root, "**/*.fsl"),
+      ];
+
+    for (const filename of await findSchemaFiles(schemapaths)) {
+      this.#parse(
+        path.resolve(filename),
+        await fs.readFile(filename, "utf8"),
+        false,
+      );
+    }
+
+    this.#publishDiagnostics();
+
+    return {
+      capabilities: {
+        // full document sync
+        textDocumentSync: 1,
+        documentFormattingProvider: true,
+        definitionProvider: true,
+        referencesProvider: true,
+        hoverProvider: true,
+        completionProvider: { triggerCharacters: [" "] },
+      },
+      serverInfo: { name: "fauna-schema-tools" },
+    };
+  }
+
+  #parse(filename: string, content: string, open: boolean): void {
+    this.#documents.get(filename)?.tree?.free();
+
+    let tree: Schema | null = null;
+    let diagnostics: SchemaDiagnostic[] = [];
+    try {
+      tree = Schema.parse(content, filename);
+    } catch (err) {
+      if (!(err instanceof SchemaError)) {
+        throw err;
+      }
+
+      diagnostics = err.diagnostics;
+    }
+
+    this.#documents.set(filename, { content, tree, diagnostics, open });
+  }
+
+  #update(uri: string, content: string, open: boolean): void {
+    this.#parse(fileURLToPath(uri), content, open);
+    this.#publishDiagnostics();
+  }
+
+  async #close(uri: string): Promise<void> {
+    const filename = fileURLToPath(uri);
+    let content: string;
+    try {
+      content = await fs.readFile(filename, "utf8");
+    } catch {
+      this.#documents.get(filename)?.tree?.free();
+      this.#documents.delete(filename);
+      this.#send({
+        jsonrpc: "2.0",
+        method: "textDocument/publishDiagnostics",
+        params: { uri, diagnostics: [] },
+      });
+      this.#publishDiagnostics();
+      return;
+    }
+
+    this.#update(uri, content, false);
+  }
+
+  #document(uri: string): [filename: string, document: SchemaDocument] {
+    const filename = fileURLToPath(uri);
+    const document = this.#documents.get(filename);
+    if (!document) {
+      throw new ResponseError(
+        ErrorCodes.RequestFailed,
+        `Unknown document ${uri}`,
+      );
+    }
+
+    return [filename, document];
+  }
+
+  #declarations(): DeclarationLocation[] {
+    return Array.from(this.#documents, ([filename, document]) =>
+      findDeclarations(filename, document.content),
+    ).flat();
+  }
+
+  /**
+   * Publishes the parse errors of every document, and the lint messages of
+   * the merged schema at the declarations they refer to.
+   */
+  #publishDiagnostics(): void {
+    const diagnostics = new Map<string, Diagnostic[]>();
+    for (const [filename, document] of this.#documents) {
+      diagnostics.set(
+        filename,
+        document.diagnostics.map((diagnostic) => ({
+          range: rangeOf(
+            document.content,
+            diagnostic.span.start,
+            diagnostic.span.end,
+          ),
+          severity: DiagnosticSeverity[diagnostic.severity],
+          code: diagnostic.code,
+          source: "fsl",
+          message: diagnostic.message,
+        })),
+      );
+    }
+
+    const trees = Array.from(this.#documents.values()).flatMap(
+      (document) => document.tree ?? [],
+    );
+    if (trees.length) {
+      const declarations = this.#declarations();
+      const merged = Schema.merge(trees.map((tree) => tree.clone()));
+      try {
+        for (const message of lintSchema(merged)) {
+          const declaration = declarations.find(
+            (decl) => decl.type === message.type && decl.name === message.name,
+          );
+          if (!declaration) {
+            continue;
+          }
+
+          const { content } = this.#documents.get(declaration.filename);
+          diagnostics.get(declaration.filename).push({
+            range: rangeOf(
+              content,
+              declaration.nameStart,
+              declaration.nameStart + declaration.name.length,
+            ),
+            severity: DiagnosticSeverity[message.severity],
+            code: message.rule,
+            source: "fsl-lint",
+            message: message.message,
+          });
+        }
+      } finally {
+        merged.free();
+      }
+    }
+
+    for (const [filename, fileDiagnostics] of diagnostics) {
+      this.#send({
+        jsonrpc: "2.0",
+        method: "textDocument/publishDiagnostics",
+        params: {
+          uri: pathToFileURL(filename).href,
+          diagnostics: fileDiagnostics,
+        },
+      });
+    }
+  }
+
+  #format(uri: string) {
+    const [filename, document] = this.#document(uri);
+    if (!document.tree) {
+      throw new ResponseError(
+        ErrorCodes.RequestFailed,
+        `Cannot format ${filename} because it does not parse`,
+      );
+    }
+
+    return [
+      {
+        range: rangeOf(document.content, 0, document.content.length),
+        newText: document.tree.toString(),
+      },
+    ];
+  }
+
+  #nameAt(params: TextDocumentPositionParams): string | null {
+    const [, document] = this.#document(params.textDocument.uri);
+    return wordAt(
+      document.content,
+      offsetAt(document.content, params.position),
+    );
+  }
+
+  #location(declaration: DeclarationLocation): Location {
+    const { content } = this.#documents.get(declaration.filename);
+    return {
+      uri: pathToFileURL(declaration.filename).href,
+      range: rangeOf(
+        content,
+        declaration.nameStart,
+        declaration.nameStart + declaration.name.length,
+      ),
+    };
+  }
+
+  #definition(params: TextDocumentPositionParams): Location[] {
+    const name = this.#nameAt(params);
+    return this.#declarations()
+      .filter((decl) => decl.name === name)
+      .map((decl) => this.#location(decl));
+  }
+
+  #references(
+    params: TextDocumentPositionParams & {
+      context?: { includeDeclaration?: boolean };
+    },
+  ): Location[] {
+    const name = this.#nameAt(params);
+    const declarations = this.#declarations().filter(
+      (decl) =>
+        decl.name === name &&
+        (decl.type === DeclarationType.FUNCTION ||
+          decl.type === DeclarationType.COLLECTION),
+    );
+    if (!declarations.length) {
+      return [];
+    }
+
+    const locations: Location[] = [];
+    for (const [filename, { content }] of this.#documents) {
+      for (const offset of findReferences(content, name)) {
+        const isDeclaration = declarations.some(
+          (decl) => decl.filename === filename && decl.nameStart === offset,
+        );
+        if (isDeclaration && params.context?.includeDeclaration === false) {
+          continue;
+        }
+
+        locations.push({
+          uri: pathToFileURL(filename).href,
+          range: rangeOf(content, offset, offset + name.length),
+        });
+      }
+    }
+
+    return locations;
+  }
+
+  #hover(params: TextDocumentPositionParams) {
+    const name = this.#nameAt(params);
+    const declaration = this.#declarations().find((decl) => decl.name === name);
+    if (!declaration) {
+      return null;
+    }
+
+    const { content } = this.#documents.get(declaration.filename);
+    let signature: string;
+    if (declaration.type === DeclarationType.FUNCTION) {
+      // the signature ends where the body starts, and annotations like
+      // `@role(...)` directly precede the declaration
+      const code = maskNonCode(content);
+      const bodyStart = code.indexOf("{", declaration.nameStart);
+      const annotations =
+        code
+          .slice(0, declaration.start)
+          .match(/(?:(?<=^|\n)[ \t]*@[^\n]*\n)*[ \t]*$/)?.[0] ?? "";
+      signature = content
+        .slice(
+          declaration.start - annotations.length,
+          bodyStart === -1 ? undefined : bodyStart,
+        )
+        .trim();
+    } else {
+      signature = content
+        .slice(declaration.start, declaration.nameStart + name.length)
+        .trim();
+    }
+
+    return {
+      contents: {
+        kind: "markdown",
+        value: `\`\`\`fsl\n${signature}\n\`\`\`\n\nDeclared in ${path.basename(declaration.filename)}`,
+      },
+    };
+  }
+
+  #completion(params: TextDocumentPositionParams) {
+    const [filename, document] = this.#document(params.textDocument.uri);
+    const offset = offsetAt(document.content, params.position);
+    const line = document.content.slice(
+      document.content.lastIndexOf("\n", offset - 1) + 1,
+      offset,
+    );
+    if (!/^\s*privileges\s+[\w$]*$/.test(line)) {
+      return [];
+    }
+
+    // privileges are only valid inside of roles
+    const enclosing = findDeclarations(filename, document.content)
+      .filter((decl) => decl.start < offset)
+      .pop();
+    if (enclosing?.type !== DeclarationType.ROLE) {
+      return [];
+    }
+
+    const items = new Map<string, { label: string; kind: number }>();
+    for (const decl of this.#declarations()) {
+      if (decl.type === DeclarationType.COLLECTION) {
+        items.set(decl.name, {
+          label: decl.name,
+          kind: CompletionItemKind.Class,
+        });
+      } else if (decl.type === DeclarationType.FUNCTION) {
+        items.set(decl.name, {
+          label: decl.name,
+          kind: CompletionItemKind.Function,
+        });
+      }
+    }
+
+    return Array.from(items.values());
+  }
+}
+
+/**
+ * Runs a language server for FSL that speaks JSON-RPC over stdio. It loads
+ * all schema files of the workspace so that definitions, references and
+ * diagnostics work across files, and never accesses the network.
+ *
+ * The WASM module must be initialized first.
+ *
+ * @returns The exit code once the client sends `exit` or closes the input.
+ */
+export function startLanguageServer(
+  options?: LanguageServerOptions,
+): Promise<number> {
+  const input = options?.input ?? process.stdin;
+  const output = options?.output ?? process.stdout;
+
+  const server = new SchemaLanguageServer((message) => {
+    const json = JSON.stringify(message);
+    output.write(`Content-Length: ${Buffer.byteLength(json)}\r\n\r\n${json}`);
+  }, options);
+
+  return new Promise((resolve, reject) => {
+    // messages are handled one at a time so that changes apply in order
+    let queue = Promise.resolve();
+    let buffer = Buffer.alloc(0);
+
+    function onData(chunk: Buffer | string): void {
+      buffer = Buffer.concat([buffer, Buffer.from(chunk)]);
+      for (;;) {
+        const headerEnd = buffer.indexOf("\r\n\r\n");
+        if (headerEnd === -1) {
+          return;
+        }
+
+        const length = Number(
+          buffer
+            .subarray(0, headerEnd)
+            .toString("ascii")
+            .match(/^Content-Length: *(\d+)/im)?.[1],
+        );
+        const bodyStart = headerEnd + 4;
+        if (Number.isNaN(length)) {
+          buffer = buffer.subarray(bodyStart);
+          continue;
+        }
+
+        if (buffer.length < bodyStart + length) {
+          return;
+        }
+
+        const body = buffer.subarray(bodyStart, bodyStart + length).toString();
+        buffer = buffer.subarray(bodyStart + length);
+
+        let message: Message;
+        try {
+          message = JSON.parse(body);
+        } catch {
+          continue;
+        }
+
+        queue = queue.then(() => server.handle(message));
+      }
+    }
+
+    function stop(code: number): void {
+      input.off("data", onData);
+      queue.then(() => {
+        server.free();
+        resolve(code);
+      }, reject);
+    }
+
+    server.onExit = stop;
+    input.on("data", onData);
+    input.once("end", () => stop(1));
+    input.once("error", reject);
+  });
+}
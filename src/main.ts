@@ -1,16 +1,48 @@
 import {
   init,
   Schema,
-  mergeSchemas,
-  writeIfChanged,
   pushSchema,
   type PushSchemaOptions,
+  type PushSchemaResult,
+  pushSchemaToDatabases,
+  type PushSchemaToDatabasesOptions,
   loadSchemas,
   PushSchemaError,
+  initWasm,
+  diffSchemas,
+  type SchemaDiff,
+  pullSchema,
+  parseFnsMapFile,
+  SchemaError,
+  type SchemaDiagnostic,
+  lintSchema,
+  type OutputOptions,
+  loadConfig,
+  resolveTarget,
+  type SchemaToolsConfig,
+  getStagedStatus,
+  commitStagedSchema,
+  abandonStagedSchema,
+  getSchemaHistory,
+  rollbackSchema,
+  readPushLedger,
+  writeSchemaOutputs,
+  linkSchemaFiles,
+  type OutputTimings,
+  watchSchemas,
+  type SchemaWatcher,
+  type WatchSchemasOptions,
+  type LinkManifestReport,
+  readLinkManifest,
+  type PushSchemaToDatabasesResult,
+  startLanguageServer,
+  printDependencyGraph,
+  filterDependents,
+  DeclarationType,
+  findUnused,
+  findImportedFunctions,
 } from "./lib";
 import * as fs from "node:fs/promises";
-import * as chokidar from "chokidar";
-import jen from "jennifer-js";
 import {
   command,
   run,
@@ -23,190 +55,126 @@ import {
   boolean,
   flag,
   subcommands,
+  oneOf,
+  multioption,
+  array,
 } from "cmd-ts";
 
-type SchemaCache = Record<string, { tree: Schema; content: string }>;
-
-async function handleChange(
-  schemas: SchemaCache,
-  event: "add" | "change" | "unlink",
-  id: string,
-) {
-  schemas[id]?.tree.free();
-
-  switch (event) {
-    case "add":
-    case "change":
-      {
-        const content = await fs.readFile(id, "utf-8");
-        schemas[id] = { tree: Schema.parse(content, id), content };
-      }
-      break;
+/**
+ * Formats a diagnostic with a code frame from the source file if it exists.
+ */
+async function formatDiagnostic(diagnostic: SchemaDiagnostic): Promise<string> {
+  let out = `${diagnostic.severity}[${diagnostic.code}]: ${diagnostic.message}\n  --> ${diagnostic.file}:${diagnostic.line}:${diagnostic.column}\n`;
 
-    case "unlink":
-      delete schemas[id];
-      break;
+  let source: string;
+  try {
+    source = await fs.readFile(diagnostic.file, "utf8");
+  } catch {
+    return out;
   }
-}
-
-function sleep(ms: number): Promise<void> {
-  return new Promise((resolve) => setTimeout(resolve, ms));
-}
-
-function debounce<T extends (...args: unknown[]) => unknown>(
-  f: T,
-  delayMs: number,
-): (...arg: Parameters<T>) => Promise<Awaited<ReturnType<T>>> {
-  let ts = Date.now();
-
-  let started = 0;
-  async function start(
-    ...args: Parameters<T>
-  ): Promise<Awaited<ReturnType<T>>> {
-    while (ts > Date.now()) {
-      await sleep(ts - Date.now());
-    }
-
-    started += 1;
 
-    try {
-      return await f.apply(this, args);
-    } finally {
-      started -= 1;
-    }
+  const lines = source.split("\n");
+  const first = Math.max(1, diagnostic.line - 2);
+  const last = Math.min(lines.length, diagnostic.line);
+  const gutter = last.toString().length;
+  for (let line = first; line <= last; line++) {
+    out += `${line.toString().padStart(gutter)} | ${lines[line - 1]}\n`;
   }
 
-  let currentRun: Promise<Awaited<ReturnType<T>>> | null = null;
-  return function run(...args: Parameters<T>): Promise<Awaited<ReturnType<T>>> {
-    ts = Date.now() + delayMs;
+  out += `${" ".repeat(gutter)} | ${" ".repeat(diagnostic.column - 1)}^\n`;
 
-    if (!currentRun || started) {
-      const p = start.apply(this, args);
-      currentRun = p;
-      currentRun.finally(() => {
-        if (currentRun === p) {
-          currentRun = null;
-        }
-      });
-    }
-
-    return currentRun;
-  };
+  return out;
 }
 
-function startWatcher(
-  generateFn: (
-    this: chokidar.FSWatcher,
-    schamas: SchemaCache,
-  ) => void | Promise<void>,
-  paths: string | string[],
-): chokidar.FSWatcher {
-  const schemas: SchemaCache = {};
-
-  const debouncedGenerate = debounce(generateFn, 10);
+function reportOutputs(timings: OutputTimings): void {
+  for (const [filepath, ms] of Object.entries(timings)) {
+    console.log(
+      ms === null
+        ? `skipped ${filepath}, inputs did not change`
+        : `writing ${filepath} took ${ms}ms`,
+    );
+  }
+}
 
-  const w = chokidar.watch(paths);
-  w.on("all", (event, id) => {
-    if (event === "addDir" || event === "unlinkDir") {
-      return;
-    }
+function reportManifest(
+  report: LinkManifestReport,
+  names: Record<string, string>,
+): void {
+  for (const name of report.changed) {
+    console.log(`function ${name} changed identity, now ${names[name]}`);
+  }
 
-    handleChange(schemas, event, id).then(() =>
-      debouncedGenerate.call(w, schemas),
+  if (report.reused.length) {
+    console.log(
+      `kept the mangled names of ${report.reused.length} functions with unchanged behavior`,
     );
-  });
-  return w;
+  }
 }
 
-function generateFnsMapFile(name: Record<string, string>): string {
-  return jen
-    .statements(
-      jen.import.obj(jen.id("fql")).from.lit("fauna"),
-      ...Object.entries(name)
-        .toSorted(([a], [b]) => a.localeCompare(b))
-        .map(([name, mangled]) =>
-          jen.export.const
-            .id(name)
-            .op("=")
-            .id("fql")
-            .call(jen.arr(jen.lit(mangled))),
-        ),
-    )
-    .toString();
+function reportPushResult(
+  result: PushSchemaResult,
+  options: PushSchemaOptions,
+): void {
+  console.log(`validation took ${result.validationMs}ms`);
+  if (result.diff) {
+    console.log(result.diff);
+  }
+  if (typeof result.updateMs === "number" && options.staged) {
+    console.log(
+      `staging took ${result.updateMs}ms, check progress with \`status\` and apply with \`commit\``,
+    );
+  } else if (typeof result.updateMs === "number") {
+    console.log(`update took ${result.updateMs}ms`);
+  } else if (options.dryRun && result.diff) {
+    console.log(
+      `dry run, skipped update of ${Object.keys(result.files).join(", ")}`,
+    );
+  } else {
+    console.log("no schema changes found, skipped update");
+  }
 }
 
-interface OutputOptions {
-  dtspath?: string;
-  fnspath?: string;
-  schema?: {
-    path?: false | string;
-    push?: false | PushSchemaOptions;
-  };
-}
+function reportDatabasesPushResult(
+  summary: PushSchemaToDatabasesResult,
+  options: PushSchemaOptions,
+): void {
+  for (const { database, status, result, error } of summary.results) {
+    console.log(`[${database}] ${status}`);
+    if (result) {
+      reportPushResult(result, options);
+    } else if (error instanceof PushSchemaError) {
+      console.log(`${error.message}\n${error.details}`);
+    } else if (error) {
+      console.log(error);
+    }
+  }
 
-async function time<F extends (...args: unknown[]) => Promise<unknown>>(
-  name: string,
-  fn: F,
-  ...args: Parameters<F>
-): Promise<Awaited<ReturnType<F>>> {
-  const start = Date.now();
-  const result = await fn(...args);
-  console.log(`${name} took ${Date.now() - start}ms`);
-  return result as Awaited<ReturnType<F>>;
+  console.log(
+    `pushed to ${summary.pushed} databases, ${summary.failed} failed, ${summary.skipped} skipped`,
+  );
+
+  if (summary.failed) {
+    process.exitCode = 1;
+  }
 }
 
 async function pushAndReport(
   schema: Schema,
-  options?: PushSchemaOptions,
+  options: PushSchemaOptions | PushSchemaToDatabasesOptions,
 ): Promise<void> {
-  try {
-    const result = await pushSchema(schema, options);
-    console.log(`validation took ${result.validationMs}ms`);
-    if (result.diff) {
-      console.log(result.diff);
-    }
-    if (typeof result.updateMs === "number") {
-      console.log(`update took ${result.updateMs}ms`);
-    } else {
-      console.log("no schema changes found, skipped update");
-    }
-  } catch (err) {
-    if (err instanceof PushSchemaError) {
-      console.log(err.details);
-    }
-
-    throw err;
+  if ("databases" in options) {
+    return reportDatabasesPushResult(
+      await pushSchemaToDatabases(schema, options),
+      options,
+    );
   }
-}
 
-async function writeAndPush(
-  [schema, names]: ReturnType<typeof mergeSchemas>,
-  output?: OutputOptions,
-) {
-  try {
-    await Promise.all([
-      output?.dtspath &&
-        time(`writing ${output.dtspath}`, () =>
-          writeIfChanged(output.dtspath, schema.getTypescriptDefinitions()),
-        ),
-      output?.fnspath &&
-        time(`writing ${output.fnspath}`, () =>
-          writeIfChanged(output.fnspath, generateFnsMapFile(names)),
-        ),
-      output?.schema?.path &&
-        time(`writing ${output.schema.path}`, () =>
-          writeIfChanged(output.schema.path as string, schema.toString()),
-        ),
-      output?.schema?.push && pushAndReport(schema, output.schema.push),
-    ]);
-  } finally {
-    schema.free();
-  }
+  reportPushResult(await pushSchema(schema, options), options);
 }
 
 async function build(
   schemapaths: string | string[],
-  output?: OutputOptions,
+  output: OutputOptions = {},
 ): Promise<void> {
   const schemas = Object.values(await loadSchemas(schemapaths));
   if (schemas.length === 0) {
@@ -218,9 +186,24 @@ async function build(
 
   const start = Date.now();
   try {
-    const mergedSchema = mergeSchemas(schemas);
+    const [schema, names, report] = await linkSchemaFiles(schemas, output);
     console.log(`merging schema took ${Date.now() - start}ms`);
-    await writeAndPush(mergedSchema, output);
+    if (report) {
+      reportManifest(report, names);
+    }
+
+    try {
+      await Promise.all([
+        writeSchemaOutputs(schema, names, output).then(reportOutputs),
+        output.schema?.push &&
+          pushAndReport(schema, {
+            ...output.schema.push,
+            mangledNames: names,
+          }),
+      ]);
+    } finally {
+      schema.free();
+    }
   } finally {
     for (const schema of schemas) {
       schema.free();
@@ -230,40 +213,223 @@ async function build(
 
 function watch(
   schemapaths: string | string[],
-  output?: OutputOptions,
-): chokidar.FSWatcher {
-  return startWatcher(
-    (schemas) =>
-      writeAndPush(
-        mergeSchemas(Object.values(schemas).map((s) => s.tree)),
-        output,
-      ),
-    schemapaths,
-  );
+  options: WatchSchemasOptions = {},
+): SchemaWatcher {
+  const watcher = watchSchemas(schemapaths, options);
+  const push = options.schema?.push || undefined;
+
+  watcher.on("build", ({ mangledNames, relinked, manifestReport, timings }) => {
+    if (manifestReport) {
+      console.log(`merging schema took ${timings.linkMs}ms`);
+      reportManifest(manifestReport, mangledNames);
+    } else {
+      console.log(
+        `parsing took ${timings.parseMs}ms, merging took ${timings.mergeMs}ms, linking ${relinked.length} of ${Object.keys(mangledNames).length} functions took ${timings.linkMs}ms`,
+      );
+    }
+
+    reportOutputs(timings.outputs);
+
+    if (push && options.skipPushOnError && watcher.errors.size) {
+      console.log(
+        `skipped push until ${watcher.errors.size} schema files are fixed`,
+      );
+    }
+  });
+
+  watcher.on("error", async (err, filename) => {
+    if (err instanceof SchemaError) {
+      for (const diagnostic of err.diagnostics) {
+        console.error(await formatDiagnostic(diagnostic));
+      }
+    } else if (err instanceof PushSchemaError) {
+      console.error(`${err.message}\n${err.details}`);
+    } else {
+      console.error(err);
+    }
+
+    if (filename) {
+      console.error(`using the last version of ${filename} that parsed`);
+    }
+  });
+
+  watcher.on("pushed", (result) => {
+    if ("results" in result) {
+      reportDatabasesPushResult(result, push);
+    } else {
+      reportPushResult(result, push);
+    }
+  });
+
+  return watcher;
 }
 
-async function initWasm() {
-  init(
-    await fs.readFile(
-      typeof require !== "undefined"
-        ? require.resolve("fauna-schema-tools/wasm")
-        : import.meta.resolve("fauna-schema-tools/wasm"),
-    ),
-  );
+const endpointArgs = {
+  pushkey: option({
+    long: "key",
+    short: "k",
+    description: "Fauna key",
+    type: optional(string),
+  }),
+  endpoint: option({
+    long: "endpoint",
+    short: "e",
+    description:
+      "Fauna endpoint (defaults to https://db.fauna.com if key is set, otherwise https://localhost:8443)",
+    type: optional(string),
+  }),
+  target: option({
+    long: "target",
+    description:
+      "Use a target from the config file (defaults to `defaultTarget` if no key or endpoint is set)",
+    type: optional(string),
+  }),
+  timeout: option({
+    long: "timeout",
+    description: "Timeout in milliseconds for each request (defaults to 60000)",
+    type: optional(number),
+  }),
+};
+
+const pushArgs = {
+  ...endpointArgs,
+  dryrun: flag({
+    long: "dry-run",
+    description: "Validate the schema without pushing it (implies --push)",
+    type: boolean,
+  }),
+  staged: flag({
+    long: "staged",
+    description:
+      "Stage the schema instead of applying it immediately (implies --push)",
+    type: boolean,
+  }),
+  retain: option({
+    long: "retain",
+    short: "r",
+    description: "Number of function revisions to retain (defaults to 10)",
+    type: optional(number),
+  }),
+  databases: multioption({
+    long: "database",
+    short: "d",
+    description:
+      "Child database path to push to with a scoped key, can be repeated (implies --push)",
+    type: array(string),
+  }),
+  continueonerror: flag({
+    long: "continue-on-error",
+    description:
+      "Keep pushing to the remaining databases after a push to one failed",
+    type: boolean,
+  }),
+  checkversion: flag({
+    long: "check-version",
+    description:
+      "Fail instead of overwriting the schema if it changed during the push",
+    type: boolean,
+  }),
+  retries: option({
+    long: "conflict-retries",
+    description:
+      "Number of times to retry the push if the schema changed during it (implies --check-version)",
+    type: optional(number),
+  }),
+};
+
+function endpointFromArgs(
+  args: {
+    pushkey?: string;
+    endpoint?: string;
+    target?: string;
+    timeout?: number;
+  },
+  config: SchemaToolsConfig,
+): PushSchemaOptions {
+  const options: PushSchemaOptions = args.pushkey
+    ? { key: args.pushkey, endpoint: args.endpoint }
+    : args.target || (config.defaultTarget && !args.endpoint)
+      ? resolveTarget(config, args.target)
+      : { endpoint: args.endpoint || "http://localhost:8443", key: "secret" };
+  if (args.timeout !== undefined) {
+    options.timeoutMs = args.timeout;
+  }
+
+  return options;
+}
+
+function pushOptionsFromArgs(
+  args: Parameters<typeof endpointFromArgs>[0] & {
+    dryrun: boolean;
+    staged: boolean;
+    retain?: number;
+    checkversion: boolean;
+    retries?: number;
+    databases: string[];
+    continueonerror: boolean;
+  },
+  config: SchemaToolsConfig,
+): PushSchemaOptions | PushSchemaToDatabasesOptions {
+  const push = endpointFromArgs(args, config);
+  if (args.retain) {
+    push.retainRevisions = args.retain;
+  }
+
+  if (args.dryrun) {
+    push.dryRun = true;
+  }
+
+  if (args.staged) {
+    push.staged = true;
+  }
+
+  if (args.checkversion) {
+    push.checkVersion = true;
+  }
+
+  if (args.retries !== undefined) {
+    push.conflictRetries = args.retries;
+  }
+
+  push.onConflictRetry = (attempt, retries, database) => {
+    console.warn(
+      `${database ? `${database}: ` : ""}schema changed during push, retrying (${attempt}/${retries})...`,
+    );
+  };
+
+  if (args.databases.length) {
+    return {
+      ...push,
+      databases: args.databases,
+      continueOnError: args.continueonerror,
+    };
+  }
+
+  return push;
+}
+
+function resolveSchemaPaths(
+  argpaths: string[],
+  configpaths: string[] | undefined,
+): string[] {
+  const paths = argpaths.length ? argpaths : configpaths;
+  if (!paths?.length) {
+    throw new Error(
+      "No schema paths given and no config file with `schemapaths` found",
+    );
+  }
+
+  return paths;
 }
 
 const link = command({
   name: "link",
   description: "Link functions in a schema",
   args: {
-    schemapath: positional({
-      displayName: "schema path",
-      description: "Path to schema files (globs are supported)",
-      type: string,
-    }),
     schemapaths: restPositionals({
       displayName: "schema paths",
-      description: "Additional paths to schema files",
+      description:
+        "Paths to schema files (globs are supported), defaults to `schemapaths` from the config file",
       type: string,
     }),
     watch: flag({
@@ -272,6 +438,12 @@ const link = command({
       description: "Watch for changes and rebuild",
       type: boolean,
     }),
+    skippushonerror: flag({
+      long: "skip-push-on-error",
+      description:
+        "In watch mode, do not push while any schema file fails to parse",
+      type: boolean,
+    }),
     typesout: option({
       long: "types-out",
       short: "t",
@@ -284,6 +456,39 @@ const link = command({
       description: "Output path for ts function names map file",
       type: optional(string),
     }),
+    typednames: flag({
+      long: "typed-names",
+      description:
+        "Export typed wrapper functions from the function names map file",
+      type: boolean,
+    }),
+    validatorsout: option({
+      long: "validators-out",
+      description:
+        "Output path for runtime validators (json schema if the path ends in .json, otherwise zod)",
+      type: optional(string),
+    }),
+    mangle: option({
+      long: "mangle",
+      description:
+        "How to rename linked functions: hash (name_<hash>), prefix-hash (name_<short hash>), versioned (name_v<n>, requires --manifest) or none",
+      type: optional(
+        oneOf(["hash", "prefix-hash", "versioned", "none"] as const),
+      ),
+    }),
+    hashlength: option({
+      long: "hash-length",
+      description:
+        "Number of hash characters in mangled names (6-40, defaults to 40 for hash and 6 for prefix-hash)",
+      type: optional(number),
+    }),
+    manifest: option({
+      long: "manifest",
+      short: "m",
+      description:
+        "Link manifest that keeps mangled names stable across changes that do not affect behavior (e.g. fauna-functions.lock.json)",
+      type: optional(string),
+    }),
     schemaout: option({
       long: "schema-out",
       short: "s",
@@ -296,30 +501,23 @@ const link = command({
       description: "Push schema to db",
       type: boolean,
     }),
-    pushkey: option({
-      long: "key",
-      short: "k",
-      description: "Fauna key",
-      type: optional(string),
-    }),
-    endpoint: option({
-      long: "endpoint",
-      short: "e",
+    ...pushArgs,
+    target: option({
+      long: "target",
       description:
-        "Fauna endpoint (defaults to https://db.fauna.com if key is set, otherwise https://localhost:8443)",
+        "Push to a target from the config file (implies --push, defaults to `defaultTarget` when pushing)",
       type: optional(string),
     }),
-    retain: option({
-      long: "retain",
-      short: "r",
-      description: "Number of function revisions to retain",
-      defaultValue: () => 10,
-      type: number,
-    }),
   },
   handler: async (args) => {
+    const config: SchemaToolsConfig = (await loadConfig())?.config ?? {};
+    const { schemapaths, targets, defaultTarget, ...configOutput } = config;
+
+    // pushing always needs a flag, `schema.push` in the config only provides
+    // the defaults
     const output: OutputOptions = {
-      schema: {},
+      ...configOutput,
+      schema: { ...configOutput.schema, push: undefined },
     };
 
     if (args.typesout) {
@@ -330,27 +528,51 @@ const link = command({
       output.fnspath = args.namesout;
     }
 
+    if (args.typednames) {
+      output.typedfns = true;
+    }
+
+    if (args.validatorsout) {
+      output.validatorspath = args.validatorsout;
+    }
+
+    if (args.manifest) {
+      output.manifestpath = args.manifest;
+    }
+
+    if (args.mangle || args.hashlength !== undefined) {
+      output.mangling = {
+        ...output.mangling,
+        ...(args.mangle && { strategy: args.mangle }),
+        ...(args.hashlength !== undefined && { hashLength: args.hashlength }),
+      };
+    }
+
     if (args.schemaout) {
       output.schema.path = args.schemaout;
     }
 
-    if (args.push) {
-      const push: PushSchemaOptions = args.pushkey
-        ? { key: args.pushkey, endpoint: args.endpoint }
-        : { endpoint: args.endpoint || "http://localhost:8443", key: "secret" };
-      if (args.retain) {
-        push.retainRevisions = args.retain;
-      }
-
-      output.schema.push = push;
+    if (
+      args.push ||
+      args.dryrun ||
+      args.staged ||
+      args.target ||
+      args.databases.length
+    ) {
+      output.schema.push = {
+        ...configOutput.schema?.push,
+        ...pushOptionsFromArgs(args, config),
+      };
     }
 
     await initWasm();
 
-    await (args.watch ? watch : build)(
-      [args.schemapath, ...args.schemapaths],
-      output,
-    );
+    const paths = resolveSchemaPaths(args.schemapaths, schemapaths);
+    if (args.watch) {
+      watch(paths, { ...output, skipPushOnError: args.skippushonerror });
+    } else {
+      await build(paths, output);
+    }
   },
 });
 
@@ -414,9 +636,554 @@ const format = command({
   },
 });
 
+const pull = command({
+  name: "pull",
+  description: "Download the schema from a database into local files",
+  args: {
+    outdir: positional({
+      displayName: "out dir",
+      description: "Directory to write the schema files to",
+      type: string,
+    }),
+    layout: option({
+      long: "layout",
+      short: "l",
+      description:
+        "Write one file per declaration or one file per declaration type",
+      type: oneOf(["declaration", "type"] as const),
+      defaultValue: () => "declaration" as const,
+    }),
+    names: option({
+      long: "names",
+      short: "n",
+      description:
+        "Function names map file produced by `link --names-out` used to restore the original function names",
+      type: optional(string),
+    }),
+    manifest: option({
+      long: "manifest",
+      description:
+        "Link manifest used to restore the original function names, defaults to `manifestpath` from the config file",
+      type: optional(string),
+    }),
+    ...endpointArgs,
+  },
+  handler: async (args) => {
+    await initWasm();
+
+    const config: SchemaToolsConfig = (await loadConfig())?.config ?? {};
+    const manifestpath = args.manifest ?? config.manifestpath;
+    if (!args.names && !manifestpath) {
+      console.warn(
+        "neither --names nor --manifest is set, function names are kept as they are in the database",
+      );
+    }
+
+    const files = await pullSchema({
+      ...endpointFromArgs(args, config),
+      outdir: args.outdir,
+      layout: args.layout,
+      mangledNames: args.names
+        ? parseFnsMapFile(await fs.readFile(args.names, "utf8"))
+        : undefined,
+      manifest: manifestpath ? await readLinkManifest(manifestpath) : undefined,
+    });
+
+    console.log(`wrote ${files.length} schema files to ${args.outdir}`);
+  },
+});
+
+async function loadMergedSchema(
+  schemapaths: string | string[],
+): Promise<Schema> {
+  const schemas = Object.values(await loadSchemas(schemapaths));
+  try {
+    // functions are not linked so that changes are reported by their original names
+    const merged = Schema.merge(schemas.map((schema) => schema.clone()));
+    merged.mergeRoles();
+    merged.sort();
+    return merged;
+  } finally {
+    for (const schema of schemas) {
+      schema.free();
+    }
+  }
+}
+
+function printSchemaDiff(result: SchemaDiff): void {
+  if (
+    !result.added.length &&
+    !result.removed.length &&
+    !result.modified.length
+  ) {
+    console.log("no schema changes found");
+    return;
+  }
+
+  for (const { type, name } of result.added) {
+    console.log(`+ ${type} ${name}`);
+  }
+
+  for (const { type, name } of result.removed) {
+    console.log(`- ${type} ${name}`);
+  }
+
+  for (const { type, name } of result.modified) {
+    console.log(`~ ${type} ${name}`);
+  }
+
+  for (const { diff } of result.modified) {
+    process.stdout.write(`\n${diff}`);
+  }
+}
+
+const diff = command({
+  name: "diff",
+  description: "Compare two sets of schema files",
+  args: {
+    from: positional({
+      displayName: "from",
+      description: "Path to the original schema files (globs are supported)",
+      type: string,
+    }),
+    to: positional({
+      displayName: "to",
+      description: "Path to the changed schema files (globs are supported)",
+      type: optional(string),
+    }),
+    schemaout: option({
+      long: "schema-out",
+      short: "s",
+      description:
+        "Combined fsl file produced by `link --schema-out` to compare against the schema files, linked with the mangling options of the config file",
+      type: optional(string),
+    }),
+    json: flag({
+      long: "json",
+      description: "Print the differences as json",
+      type: boolean,
+    }),
+  },
+  handler: async (args) => {
+    if (!args.to === !args.schemaout) {
+      throw new Error("expected exactly one of `to` or `--schema-out`");
+    }
+
+    await initWasm();
+
+    let a: Schema;
+    let b: Schema;
+    if (args.schemaout) {
+      a = Schema.parse(
+        await fs.readFile(args.schemaout, "utf8"),
+        args.schemaout,
+      );
+
+      // link with the same names as a push would, without updating the
+      // manifest
+      const { schemapaths, targets, defaultTarget, ...output } =
+        (await loadConfig())?.config ?? {};
+      const schemas = Object.values(await loadSchemas(args.from));
+      try {
+        [b] = await linkSchemaFiles(schemas, output, { writeManifest: false });
+      } finally {
+        for (const schema of schemas) {
+          schema.free();
+        }
+      }
+    } else {
+      a = await loadMergedSchema(args.from);
+      b = await loadMergedSchema(args.to);
+    }
+
+    try {
+      const result = diffSchemas(a, b);
+      if (args.json) {
+        console.log(JSON.stringify(result, null, 2));
+      } else {
+        printSchemaDiff(result);
+      }
+    } finally {
+      a.free();
+      b.free();
+    }
+  },
+});
+
+const check = command({
+  name: "check",
+  description: "Check schema files for common mistakes",
+  args: {
+    schemapath: positional({
+      displayName: "schema path",
+      description: "Path to schema files (globs are supported)",
+      type: string,
+    }),
+    schemapaths: restPositionals({
+      displayName: "schema paths",
+      description: "Additional paths to schema files",
+      type: string,
+    }),
+    json: flag({
+      long: "json",
+      description: "Print the messages as json",
+      type: boolean,
+    }),
+  },
+  handler: async (args) => {
+    await initWasm();
+
+    const schemas = Object.values(
+      await loadSchemas([args.schemapath, ...args.schemapaths]),
+    );
+
+    using schema = Schema.merge(schemas.map((schema) => schema.clone()));
+    for (const s of schemas) {
+      s.free();
+    }
+
+    const messages = lintSchema(schema);
+    if (args.json) {
+      console.log(JSON.stringify(messages, null, 2));
+    } else {
+      for (const { severity, rule, type, name, message } of messages) {
+        console.log(`${severity}[${rule}]: ${type} ${name} ${message}`);
+      }
+
+      const errors = messages.filter((m) => m.severity === "error").length;
+      console.log(
+        `found ${errors} errors and ${messages.length - errors} warnings in ${schemas.length} schema files`,
+      );
+    }
+
+    if (messages.some((m) => m.severity === "error")) {
+      process.exitCode = 1;
+    }
+  },
+});
+
+const graph = command({
+  name: "graph",
+  description:
+    "Print the dependencies between functions, collections, roles and access providers",
+  args: {
+    schemapaths: restPositionals({
+      displayName: "schema paths",
+      description:
+        "Paths to schema files (globs are supported), defaults to `schemapaths` from the config file",
+      type: string,
+    }),
+    format: option({
+      long: "format",
+      short: "f",
+      description: "Print the graph for graphviz, mermaid or as json",
+      type: oneOf(["dot", "mermaid", "json"] as const),
+      defaultValue: () => "dot" as const,
+    }),
+    dependentsof: option({
+      long: "dependents-of",
+      description:
+        "Only print the function and everything that depends on it, to see what a change may break",
+      type: optional(string),
+    }),
+  },
+  handler: async (args) => {
+    const config: SchemaToolsConfig = (await loadConfig())?.config ?? {};
+
+    await initWasm();
+
+    using schema = await loadMergedSchema(
+      resolveSchemaPaths(args.schemapaths, config.schemapaths),
+    );
+
+    let result = schema.getDependencyGraph();
+    if (args.dependentsof) {
+      const id = `${DeclarationType.FUNCTION}:${args.dependentsof}`;
+      if (!result.nodes.some((node) => node.id === id)) {
+        throw new Error(`function ${args.dependentsof} is not declared`);
+      }
+
+      result = filterDependents(result, id);
+    }
+
+    process.stdout.write(printDependencyGraph(result, args.format));
+  },
+});
+
+const unused = command({
+  name: "unused",
+  description: "Report functions and roles that nothing uses",
+  args: {
+    schemapaths: restPositionals({
+      displayName: "schema paths",
+      description:
+        "Paths to schema files (globs are supported), defaults to `schemapaths` from the config file",
+      type: string,
+    }),
+    entries: multioption({
+      long: "entry",
+      short: "e",
+      description:
+        "Function that is called from outside of the schema, can be repeated",
+      type: array(string),
+    }),
+    sources: multioption({
+      long: "sources",
+      description:
+        "Typescript sources (globs are supported) whose imports from the --names-out module are entry points, can be repeated",
+      type: array(string),
+    }),
+    namesout: option({
+      long: "names-out",
+      description:
+        "Function names module written by `link --names-out`, defaults to `fnspath` from the config file",
+      type: optional(string),
+    }),
+    json: flag({
+      long: "json",
+      description: "Print the unused functions and roles as json",
+      type: boolean,
+    }),
+  },
+  handler: async (args) => {
+    const config: SchemaToolsConfig = (await loadConfig())?.config ?? {};
+
+    const entryPoints = new Set(args.entries);
+    if (args.sources.length) {
+      const namesout = args.namesout ?? config.fnspath;
+      if (!namesout) {
+        throw new Error(
+          "`--sources` requires `--names-out` or `fnspath` in the config file",
+        );
+      }
+
+      for (const name of await findImportedFunctions(args.sources, namesout)) {
+        entryPoints.add(name);
+      }
+    }
+
+    await initWasm();
+
+    using schema = await loadMergedSchema(
+      resolveSchemaPaths(args.schemapaths, config.schemapaths),
+    );
+
+    const result = findUnused(schema, { entryPoints });
+    if (args.json) {
+      console.log(JSON.stringify(result, null, 2));
+      return;
+    }
+
+    for (const name of result.functions) {
+      console.log(`unused function ${name}`);
+    }
+
+    for (const name of result.roles) {
+      console.log(`unused role ${name}`);
+    }
+
+    console.log(
+      `found ${result.functions.length} unused functions and ${result.roles.length} unused roles`,
+    );
+  },
+});
+
+const push = command({
+  name: "push",
+  description: "Link and push a schema without writing any files",
+  args: {
+    schemapaths: restPositionals({
+      displayName: "schema paths",
+      description:
+        "Paths to schema files (globs are supported), defaults to `schemapaths` from the config file",
+      type: string,
+    }),
+    ...pushArgs,
+  },
+  handler: async (args) => {
+    const config: SchemaToolsConfig = (await loadConfig())?.config ?? {};
+
+    await initWasm();
+
+    await build(resolveSchemaPaths(args.schemapaths, config.schemapaths), {
+      schema: { push: pushOptionsFromArgs(args, config) },
+    });
+  },
+});
+
+const status = command({
+  name: "status",
+  description: "Show the status of the staged schema",
+  args: endpointArgs,
+  handler: async (args) => {
+    const config: SchemaToolsConfig = (await loadConfig())?.config ?? {};
+    const result = await getStagedStatus(endpointFromArgs(args, config));
+
+    console.log(`staged schema status: ${result.status}`);
+    if (result.diff) {
+      console.log(result.diff);
+    }
+  },
+});
+
+const commit = command({
+  name: "commit",
+  description: "Apply the staged schema",
+  args: endpointArgs,
+  handler: async (args) => {
+    const config: SchemaToolsConfig = (await loadConfig())?.config ?? {};
+    const version = await commitStagedSchema(endpointFromArgs(args, config));
+
+    console.log(`committed staged schema, now at version ${version}`);
+  },
+});
+
+const abandon = command({
+  name: "abandon",
+  description: "Discard the staged schema",
+  args: endpointArgs,
+  handler: async (args) => {
+    const config: SchemaToolsConfig = (await loadConfig())?.config ?? {};
+    await abandonStagedSchema(endpointFromArgs(args, config));
+
+    console.log("abandoned staged schema");
+  },
+});
+
+const history = command({
+  name: "history",
+  description: "List the retained function revisions",
+  args: {
+    ...endpointArgs,
+    local: flag({
+      long: "local",
+      description: "List the pushes recorded in the local ledger instead",
+      type: boolean,
+    }),
+    ledger: option({
+      long: "ledger",
+      description: "Path of the local ledger (defaults to .fst/ledger.jsonl)",
+      type: optional(string),
+    }),
+  },
+  handler: async (args) => {
+    if (args.local) {
+      for (const entry of await readPushLedger(args.ledger)) {
+        console.log(
+          `${entry.timestamp} ${entry.database ?? entry.endpoint}${entry.staged ? " (staged)" : ""}${entry.version !== undefined ? ` version ${entry.version}` : ""}`,
+        );
+        if (entry.diff) {
+          console.log(entry.diff.replace(/^/gm, "  ").trimEnd());
+        }
+      }
+      return;
+    }
+
+    await initWasm();
+
+    const config: SchemaToolsConfig = (await loadConfig())?.config ?? {};
+    const revisions = await getSchemaHistory(endpointFromArgs(args, config));
+    if (!revisions.length) {
+      console.log("no function revisions found");
+      return;
+    }
+
+    for (const {
+      revision,
+      filename,
+      functions,
+      referencedByRoles,
+    } of revisions) {
+      const referenced = new Set(referencedByRoles);
+      console.log(
+        `revision ${revision} (${filename}${revision === revisions[0].revision ? ", current" : ""}): ${functions.length} functions, ${referenced.size} referenced by roles`,
+      );
+      for (const name of functions) {
+        console.log(`  ${referenced.has(name) ? "*" : " "} ${name}`);
+      }
+    }
+  },
+});
+
+const rollback = command({
+  name: "rollback",
+  description:
+    "Push the functions of a retained revision as the newest revision, keeping the current collections",
+  args: {
+    revision: positional({
+      displayName: "revision",
+      description: "Revision number as listed by `history`",
+      type: number,
+    }),
+    ...pushArgs,
+  },
+  handler: async (args) => {
+    await initWasm();
+
+    const config: SchemaToolsConfig = (await loadConfig())?.config ?? {};
+    const options = pushOptionsFromArgs(args, config);
+    if ("databases" in options) {
+      throw new Error("rollback does not support --database");
+    }
+
+    reportPushResult(await rollbackSchema(args.revision, options), options);
+  },
+});
+
+const lsp = command({
+  name: "lsp",
+  description:
+    "Start a language server for schema files that communicates over stdio",
+  args: {
+    schemapaths: restPositionals({
+      displayName: "schema paths",
+      description:
+        "Paths to schema files (globs are supported), defaults to `schemapaths` from the config file or all .fsl files in the workspace",
+      type: string,
+    }),
+  },
+  handler: async (args) => {
+    await initWasm();
+
+    // stdin keeps the process alive, so exit explicitly
+    process.exit(
+      await startLanguageServer({
+        schemapaths: args.schemapaths.length ? args.schemapaths : undefined,
+      }),
+    );
+  },
+});
+
 const app = subcommands({
   name: "fauna-schema-tools",
-  cmds: { link, format },
+  cmds: {
+    link,
+    format,
+    diff,
+    pull,
+    check,
+    graph,
+    unused,
+    push,
+    status,
+    commit,
+    abandon,
+    history,
+    rollback,
+    lsp,
+  },
 });
 
-run(app, process.argv.slice(2));
+run(app, process.argv.slice(2)).catch(async (err) => {
+  if (err instanceof SchemaError) {
+    for (const diagnostic of err.diagnostics) {
+      console.error(await formatDiagnostic(diagnostic));
+    }
+  } else if (err instanceof PushSchemaError) {
+    console.error(`${err.message}\n${err.details}`);
+  } else {
+    console.error(err);
+  }
+
+  process.exitCode = 1;
+});
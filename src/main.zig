@@ -33,7 +33,7 @@ pub fn main() !void {
     var tree = try merger.mergeSchemas(allocator, &ftrees);
     defer tree.deinit();
 
-    var mangled_func_names = try linker.linkFunctions(allocator, tree);
+    var mangled_func_names = try linker.linkFunctions(allocator, tree, null);
     defer {
         var original_name_iterator = mangled_func_names.keyIterator();
         while (original_name_iterator.next()) |original_name| {
@@ -50,5 +50,5 @@ pub fn main() !void {
 
     const w = stdout.writer();
     try tree.printCanonical(w.any());
-    // try dts.printTypescriptDefinitions(w, tree);
+    // try dts.printTypescriptDefinitions(allocator, w, tree);
 }
@@ -0,0 +1,89 @@
+import { beforeAll, describe, expect, it } from "vitest";
+import { initWasm } from "./lib";
+import {
+  createLinkManifest,
+  linkFunctionsWithManifest,
+  type LinkManifest,
+} from "./manifest";
+import { Schema } from "./schema";
+
+beforeAll(() => initWasm());
+
+const helper = "function helper(x) {\n  x + 1\n}\n";
+
+function link(
+  source: string,
+  manifest: LinkManifest = createLinkManifest(),
+): ReturnType<typeof linkFunctionsWithManifest> {
+  using schema = Schema.parse(`${helper}\n${source}`, "main.fsl");
+  return linkFunctionsWithManifest(schema, manifest);
+}
+
+describe("linkFunctionsWithManifest", () => {
+  const original = `
+function greet(name) {
+  let greeting = "Hello, " + name
+  greeting.split(" ").map(text => helper(text))
+}
+`;
+
+  it("keeps the mangled name when parameters and variables are renamed", () => {
+    const [names, manifest] = link(original);
+    const [renamedNames, , report] = link(
+      `
+function greet(person) {
+  // the same function with other names
+  let message = "Hello, " + person
+  message.split(" ").map(value => helper(value))
+}
+`,
+      manifest,
+    );
+
+    expect(renamedNames.greet).toBe(names.greet);
+    expect(report.changed).toEqual([]);
+    expect(report.reused).toContain("greet");
+  });
+
+  it("changes the mangled name when the behavior changes", () => {
+    const [names, manifest] = link(original);
+    const [changedNames, , report] = link(
+      `
+function greet(name) {
+  let greeting = "Hi, " + name
+  greeting.split(" ").map(text => helper(text))
+}
+`,
+      manifest,
+    );
+
+    expect(changedNames.greet).not.toBe(names.greet);
+    expect(report.changed).toEqual(["greet"]);
+  });
+
+  it("changes the mangled name when a parameter starts shadowing a function", () => {
+    const [names, manifest] = link("function apply(fn) {\n  helper(fn)\n}\n");
+    const [changedNames, , report] = link(
+      "function apply(helper) {\n  helper(helper)\n}\n",
+      manifest,
+    );
+
+    expect(changedNames.apply).not.toBe(names.apply);
+    expect(report.changed).toEqual(["apply"]);
+  });
+
+  it("changes the mangled name of callers when a dependency changes", () => {
+    const [names, manifest] = link(original);
+    using schema = Schema.parse(
+      `function helper(x) {\n  x + 2\n}\n${original}`,
+      "main.fsl",
+    );
+    const [changedNames, , report] = linkFunctionsWithManifest(
+      schema,
+      manifest,
+    );
+
+    expect(changedNames.greet).not.toBe(names.greet);
+    expect(report.changed.sort()).toEqual(["greet", "helper"]);
+  });
+});
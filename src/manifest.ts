@@ -0,0 +1,213 @@
+import { createHash } from "node:crypto";
+import * as fs from "node:fs/promises";
+import {
+  DeclarationType,
+  type LinkFunctionsOptions,
+  type Schema,
+} from "./schema";
+
+/**
+ * Records the mangled name of each function with a hash of its content, so
+ * that functions keep their mangled names across changes that do not affect
+ * their behavior, e.g. formatting, comments or renamed parameters.
+ */
+export interface LinkManifest {
+  version: 1;
+
+  /**
+   * The mangling options the names were created with. Names are only reused
+   * if the options did not change.
+   */
+  mangling?: Omit<LinkFunctionsOptions, "versions">;
+  functions: Record<
+    string,
+    {
+      mangled: string;
+      hash: string;
+
+      /**
+       * Incremented whenever the hash changes, used by the `versioned`
+       * mangling strategy.
+       */
+      version: number;
+    }
+  >;
+}
+
+export interface LinkManifestReport {
+  /**
+   * Functions that kept their previous mangled name although their text
+   * changed.
+   */
+  reused: string[];
+
+  /**
+   * Functions whose content changed so they got a new mangled name.
+   */
+  changed: string[];
+  added: string[];
+  removed: string[];
+}
+
+export const defaultManifestPath = "fauna-functions.lock.json";
+
+export function createLinkManifest(): LinkManifest {
+  return { version: 1, functions: {} };
+}
+
+/**
+ * Reads a manifest, or returns an empty manifest if the file does not exist.
+ */
+export async function readLinkManifest(
+  filepath: string = defaultManifestPath,
+): Promise<LinkManifest> {
+  let content: string;
+  try {
+    content = await fs.readFile(filepath, "utf8");
+  } catch (err) {
+    if ((err as NodeJS.ErrnoException).code === "ENOENT") {
+      return createLinkManifest();
+    }
+
+    throw err;
+  }
+
+  const manifest: LinkManifest = JSON.parse(content);
+  if (manifest.version !== 1) {
+    throw new Error(
+      `Unsupported manifest version ${manifest.version} in ${filepath}`,
+    );
+  }
+
+  return manifest;
+}
+
+export function stringifyLinkManifest(manifest: LinkManifest): string {
+  const functions = Object.fromEntries(
+    Object.keys(manifest.functions)
+      .sort()
+      .map((name) => [name, manifest.functions[name]]),
+  );
+
+  return `${JSON.stringify({ ...manifest, functions }, null, 2)}\n`;
+}
+
+/**
+ * Hashes each function together with all functions it depends on, so that a
+ * function changes identity whenever anything it calls does. Formatting,
+ * comments and the names of parameters and variables do not affect the hash.
+ *
+ * The schema must not be linked yet.
+ */
+function hashFunctions(schema: Schema): Map<string, string> {
+  const contents = new Map(Object.entries(schema.printNormalizedFunctions()));
+
+  const dependencies = new Map<string, string[]>();
+  for (const { type, name, functions } of schema.getFunctionReferences()) {
+    if (type === DeclarationType.FUNCTION) {
+      dependencies.set(
+        name,
+        functions.filter((called) => called !== name),
+      );
+    }
+  }
+
+  const hashes = new Map<string, string>();
+  for (const name of contents.keys()) {
+    const reachable = new Set([name]);
+    const queue = [name];
+    while (queue.length) {
+      for (const dependency of dependencies.get(queue.pop())) {
+        if (!reachable.has(dependency)) {
+          reachable.add(dependency);
+          queue.push(dependency);
+        }
+      }
+    }
+
+    const hash = createHash("sha1").update(contents.get(name));
+    for (const dependency of Array.from(reachable).sort()) {
+      if (dependency !== name) {
+        hash.update(`\0${dependency}\0${contents.get(dependency)}`);
+      }
+    }
+
+    hashes.set(name, hash.digest("hex"));
+  }
+
+  return hashes;
+}
+
+/**
+ * Links the functions of a schema, reusing the mangled names from the
+ * manifest for functions whose normalized content did not change.
+ *
+ * @returns The mangled names, the updated manifest and a report of the changes.
+ */
+export function linkFunctionsWithManifest(
+  schema: Schema,
+  manifest: LinkManifest,
+  options?: Omit<LinkFunctionsOptions, "versions">,
+): [
+  mangledNames: Record<string, string>,
+  manifest: LinkManifest,
+  report: LinkManifestReport,
+] {
+  const hashes = hashFunctions(schema);
+
+  const versions: Record<string, number> = {};
+  for (const [name, hash] of hashes) {
+    const previous = manifest.functions[name];
+    versions[name] =
+      previous?.hash === hash
+        ? (previous.version ?? 1)
+        : (previous?.version ?? 0) + 1;
+  }
+
+  const mangledNames = schema.linkFunctions({ ...options, versions });
+
+  const report: LinkManifestReport = {
+    reused: [],
+    changed: [],
+    added: [],
+    removed: Object.keys(manifest.functions).filter(
+      (name) => !(name in mangledNames),
+    ),
+  };
+
+  const mangling = {
+    strategy: options?.strategy ?? "hash",
+    hashLength: options?.hashLength,
+  };
+  const sameMangling =
+    (manifest.mangling?.strategy ?? "hash") === mangling.strategy &&
+    manifest.mangling?.hashLength === mangling.hashLength;
+
+  const renames: Record<string, string> = {};
+  const updated: LinkManifest = { ...createLinkManifest(), mangling };
+  for (const [name, mangled] of Object.entries(mangledNames)) {
+    const hash = hashes.get(name);
+    const previous = manifest.functions[name];
+    if (!previous) {
+      report.added.push(name);
+    } else if (previous.hash !== hash) {
+      report.changed.push(name);
+    } else if (sameMangling && previous.mangled !== mangled) {
+      report.reused.push(name);
+      renames[mangled] = previous.mangled;
+      mangledNames[name] = previous.mangled;
+    }
+
+    updated.functions[name] = {
+      mangled: mangledNames[name],
+      hash,
+      version: versions[name],
+    };
+  }
+
+  if (Object.keys(renames).length) {
+    schema.renameFunctions(renames);
+  }
+
+  return [mangledNames, updated, report];
+}
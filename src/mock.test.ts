@@ -0,0 +1,72 @@
+import * as fs from "node:fs/promises";
+import * as os from "node:os";
+import * as path from "node:path";
+import { afterEach, beforeAll, beforeEach, describe, expect, it } from "vitest";
+import { initWasm, mergeSchemas, pushSchema } from "./lib";
+import { type MockSchemaServer, createMockSchemaServer } from "./mock";
+import { Schema } from "./schema";
+
+let server: MockSchemaServer;
+let tempdir: string;
+
+beforeAll(() => initWasm());
+
+beforeEach(async () => {
+  server = await createMockSchemaServer();
+  tempdir = await fs.mkdtemp(path.join(os.tmpdir(), "fst-mock-"));
+});
+
+afterEach(async () => {
+  await server.close();
+  await fs.rm(tempdir, { recursive: true, force: true });
+});
+
+async function pushGreeting(
+  greeting: string,
+  retainRevisions: number,
+): Promise<string> {
+  using source = Schema.parse(
+    `function greet() {\n  ${JSON.stringify(greeting)}\n}\n`,
+    "greet.fsl",
+  );
+  const [merged, mangledNames] = mergeSchemas([source]);
+  try {
+    await pushSchema(merged, {
+      endpoint: server.endpoint,
+      key: "secret",
+      retainRevisions,
+      tempdir,
+      ledger: false,
+    });
+  } finally {
+    merged.free();
+  }
+
+  return mangledNames.greet;
+}
+
+describe("pushSchema against the mock server", () => {
+  it("retains previous function revisions up to the limit", async () => {
+    const first = await pushGreeting("hello", 2);
+    const second = await pushGreeting("hi", 2);
+    const third = await pushGreeting("hey", 2);
+
+    const files = server.files;
+    expect(Object.keys(files).sort()).toEqual([
+      "functions_0.fsl",
+      "functions_1.fsl",
+    ]);
+    expect(files["functions_0.fsl"]).toContain(third);
+    expect(files["functions_1.fsl"]).toContain(second);
+    expect(Object.values(files).join("\n")).not.toContain(first);
+    expect(server.version).toBe(3);
+  });
+
+  it("only pushes the current functions without retained revisions", async () => {
+    await pushGreeting("hello", 0);
+    const current = await pushGreeting("hi", 0);
+
+    expect(Object.keys(server.files)).toEqual(["functions_0.fsl"]);
+    expect(server.files["functions_0.fsl"]).toContain(current);
+  });
+});
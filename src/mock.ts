@@ -0,0 +1,288 @@
+import * as http from "node:http";
+import type { AddressInfo } from "node:net";
+
+export interface MockSchemaServerOptions {
+  /**
+   * The key that requests must be authorized with, defaults to `secret`.
+   */
+  key?: string;
+
+  /**
+   * The initial schema files.
+   */
+  files?: Record<string, string>;
+
+  /**
+   * Defaults to a random free port.
+   */
+  port?: number;
+
+  /**
+   * Called with the submitted files on validation. Returning a message fails
+   * the validation with that message.
+   */
+  validate?: (files: Record<string, string>) => string | null | undefined;
+}
+
+export interface MockSchemaServer {
+  /**
+   * The url to pass as `endpoint` to `pushSchema` and `pullSchema`.
+   */
+  readonly endpoint: string;
+
+  /**
+   * The current schema version, incremented by every update.
+   */
+  readonly version: number;
+
+  /**
+   * The current schema files.
+   */
+  readonly files: Record<string, string>;
+
+  /**
+   * The staged schema files, or `null` if no schema is staged.
+   */
+  readonly staged: Record<string, string> | null;
+
+  validate: MockSchemaServerOptions["validate"];
+
+  close(): Promise<void>;
+}
+
+class MockSchemaError extends Error {
+  constructor(
+    public readonly status: number,
+    public readonly code: string,
+    message: string,
+  ) {
+    super(message);
+  }
+}
+
+function diffFiles(
+  before: Record<string, string>,
+  after: Record<string, string>,
+): string {
+  const lines: string[] = [];
+  for (const filename of new Set([
+    ...Object.keys(before),
+    ...Object.keys(after),
+  ])) {
+    if (!(filename in after)) {
+      lines.push(`* Removing file \`${filename}\``);
+    } else if (!(filename in before)) {
+      lines.push(`* Adding file \`${filename}\``);
+    } else if (before[filename] !== after[filename]) {
+      lines.push(`* Modifying file \`${filename}\``);
+    }
+  }
+
+  return lines.length ? `${lines.join("\n")}\n` : "";
+}
+
+async function readFormFiles(
+  req: http.IncomingMessage,
+): Promise<Record<string, string>> {
+  const chunks: Buffer[] = [];
+  for await (const chunk of req) {
+    chunks.push(chunk);
+  }
+
+  const form = await new Response(Buffer.concat(chunks), {
+    headers: { "content-type": req.headers["content-type"] ?? "" },
+  }).formData();
+
+  const files: Record<string, string> = {};
+  for (const [filename, content] of form.entries()) {
+    files[filename] =
+      typeof content === "string" ? content : await content.text();
+  }
+
+  return files;
+}
+
+/**
+ * Starts an in-memory implementation of the schema endpoints used by
+ * `pushSchema`, `pullSchema` and the staged schema functions, intended for
+ * tests that should not depend on a live database.
+ */
+export async function createMockSchemaServer(
+  options?: MockSchemaServerOptions,
+): Promise<MockSchemaServer> {
+  const key = options?.key ?? "secret";
+  let files = { ...options?.files };
+  let staged: Record<string, string> | null = null;
+  let version = 0;
+
+  function checkVersion(url: URL): void {
+    const expected = url.searchParams.get("version");
+    if (
+      expected !== null &&
+      !url.searchParams.has("force") &&
+      Number(expected) !== version
+    ) {
+      throw new MockSchemaError(
+        409,
+        "conflict",
+        `Schema version ${expected} does not match the current version ${version}`,
+      );
+    }
+  }
+
+  async function handle(
+    req: http.IncomingMessage,
+    url: URL,
+  ): Promise<Record<string, unknown>> {
+    if (req.headers.authorization !== `Bearer ${key}`) {
+      throw new MockSchemaError(401, "unauthorized", "Invalid key");
+    }
+
+    if (req.method === "GET" && url.pathname === "/schema/1/files") {
+      return {
+        version,
+        files: Object.keys(files)
+          .sort()
+          .map((filename) => ({ filename })),
+      };
+    }
+
+    const fileMatch = url.pathname.match(/^\/schema\/1\/files\/(.+)$/);
+    if (req.method === "GET" && fileMatch) {
+      const filename = decodeURIComponent(fileMatch[1]);
+      if (!(filename in files)) {
+        throw new MockSchemaError(
+          404,
+          "not_found",
+          `File \`${filename}\` not found`,
+        );
+      }
+
+      return { version, content: files[filename] };
+    }
+
+    if (req.method === "POST" && url.pathname === "/schema/1/validate") {
+      const submitted = await readFormFiles(req);
+      const error = server.validate?.(submitted);
+      if (error) {
+        throw new MockSchemaError(400, "invalid_schema", error);
+      }
+
+      return { version, diff: diffFiles(files, submitted) };
+    }
+
+    if (req.method === "POST" && url.pathname === "/schema/1/update") {
+      const submitted = await readFormFiles(req);
+      checkVersion(url);
+
+      const error = server.validate?.(submitted);
+      if (error) {
+        throw new MockSchemaError(400, "invalid_schema", error);
+      }
+
+      if (url.searchParams.get("staged") === "true") {
+        staged = submitted;
+      } else if (staged) {
+        throw new MockSchemaError(
+          400,
+          "invalid_request",
+          "Cannot update the schema while a schema change is staged",
+        );
+      } else {
+        files = submitted;
+      }
+
+      version += 1;
+      return { version };
+    }
+
+    if (req.method === "GET" && url.pathname === "/schema/1/staged/status") {
+      return staged
+        ? { version, status: "ready", diff: diffFiles(files, staged) }
+        : { version, status: "none" };
+    }
+
+    const stagedMatch = url.pathname.match(
+      /^\/schema\/1\/staged\/(commit|abandon)$/,
+    );
+    if (req.method === "POST" && stagedMatch) {
+      checkVersion(url);
+      if (!staged) {
+        throw new MockSchemaError(
+          400,
+          "invalid_request",
+          "There is no staged schema",
+        );
+      }
+
+      if (stagedMatch[1] === "commit") {
+        files = staged;
+      }
+
+      staged = null;
+      version += 1;
+      return { version };
+    }
+
+    throw new MockSchemaError(
+      404,
+      "not_found",
+      `No route for ${req.method} ${url.pathname}`,
+    );
+  }
+
+  const httpServer = http.createServer((req, res) => {
+    const url = new URL(req.url ?? "/", "http://localhost");
+    handle(req, url)
+      .then(
+        (json) => [200, json] as const,
+        (err) =>
+          err instanceof MockSchemaError
+            ? ([
+                err.status,
+                { error: { code: err.code, message: err.message } },
+              ] as const)
+            : ([
+                500,
+                { error: { code: "internal_error", message: String(err) } },
+              ] as const),
+      )
+      .then(([status, json]) => {
+        res.writeHead(status, { "content-type": "application/json" });
+        res.end(JSON.stringify(json));
+      });
+  });
+
+  await new Promise<void>((resolve, reject) => {
+    httpServer.once("error", reject);
+    httpServer.listen(options?.port ?? 0, "127.0.0.1", () => resolve());
+  });
+
+  const { port } = httpServer.address() as AddressInfo;
+
+  const server: MockSchemaServer = {
+    endpoint: `http://127.0.0.1:${port}`,
+
+    get version() {
+      return version;
+    },
+
+    get files() {
+      return { ...files };
+    },
+
+    get staged() {
+      return staged && { ...staged };
+    },
+
+    validate: options?.validate,
+
+    close() {
+      return new Promise((resolve, reject) =>
+        httpServer.close((err) => (err ? reject(err) : resolve())),
+      );
+    },
+  };
+
+  return server;
+}
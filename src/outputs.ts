@@ -0,0 +1,213 @@
+import { createHash } from "node:crypto";
+import * as path from "node:path";
+import { generateFnsMapFile, type FnsMapFileOptions } from "./fnsmap";
+import {
+  mergeSchemas,
+  mergeSchemasWithManifest,
+  writeIfChanged,
+  writeLinkManifest,
+  type OutputOptions,
+} from "./lib";
+import { readLinkManifest, type LinkManifestReport } from "./manifest";
+import { DeclarationType, type Schema } from "./schema";
+
+/**
+ * Hashes of the inputs each output was last generated from, so that watch
+ * mode can skip outputs whose inputs did not change.
+ */
+export type OutputCache = Map<string, string>;
+
+/**
+ * Time in ms it took to write each output by path, or `null` if the output
+ * was skipped because its inputs did not change.
+ */
+export type OutputTimings = Record<string, number | null>;
+
+/**
+ * Returns the options for a typed function names map file. Types are
+ * imported relative to `output.fnspath`, or by absolute path without it, e.g.
+ * from the virtual module of the plugin.
+ */
+export function typedFnsMapFileOptions(
+  schema: Schema,
+  output: OutputOptions,
+): FnsMapFileOptions {
+  if (!output.dtspath) {
+    return { signatures: schema.getFunctionSignatures() };
+  }
+
+  let typesImport = (
+    output.fnspath
+      ? path.relative(path.dirname(output.fnspath), output.dtspath)
+      : path.resolve(output.dtspath)
+  )
+    .replace(/(\.d)?\.ts$/, "")
+    .replaceAll(path.sep, "/");
+  if (!typesImport.startsWith(".") && !path.isAbsolute(typesImport)) {
+    typesImport = `./${typesImport}`;
+  }
+
+  return {
+    signatures: schema.getFunctionSignatures(),
+    typesImport,
+    typeNames: Array.from(
+      schema
+        .getTypescriptDefinitions()
+        .matchAll(/^export (?:type|enum) ([\w$]+)/gm),
+      (match) => match[1],
+    ),
+  };
+}
+
+/**
+ * Runs `fn` unless it already ran for the same input. Always runs `fn`
+ * without a cache.
+ *
+ * @returns Whether `fn` ran.
+ */
+export async function unlessUnchanged(
+  cache: OutputCache | undefined,
+  name: string,
+  input: () => string,
+  fn: () => Promise<unknown>,
+): Promise<boolean> {
+  if (!cache) {
+    await fn();
+    return true;
+  }
+
+  const hash = createHash("sha1").update(input()).digest("hex");
+  if (cache.get(name) === hash) {
+    return false;
+  }
+
+  await fn();
+  cache.set(name, hash);
+  return true;
+}
+
+/**
+ * Returns functions that print the declarations of the given types, to
+ * compare the inputs of outputs.
+ */
+export function declarationsInput(
+  schema: Schema,
+): (types?: DeclarationType[]) => () => string {
+  let declarations: ReturnType<Schema["printDeclarations"]> | undefined;
+  return (types) => () => {
+    declarations ??= schema.printDeclarations();
+    return declarations
+      .filter(({ type }) => !types || types.includes(type))
+      .map(({ content }) => content)
+      .join("\n");
+  };
+}
+
+/**
+ * Writes the types, function names, validators and schema files configured
+ * in `output`. Does not push the schema.
+ *
+ * @param cache - Skips outputs whose inputs did not change since they were
+ *   last written with the same cache.
+ */
+export async function writeSchemaOutputs(
+  schema: Schema,
+  names: Record<string, string>,
+  output: OutputOptions,
+  cache?: OutputCache,
+): Promise<OutputTimings> {
+  const timings: OutputTimings = {};
+  const write = async (
+    filepath: string,
+    input: () => string,
+    content: () => string,
+  ) => {
+    const start = Date.now();
+    const written = await unlessUnchanged(cache, filepath, input, () =>
+      writeIfChanged(filepath, content()),
+    );
+    timings[filepath] = written ? Date.now() - start : null;
+  };
+
+  // collections determine the types and validators, everything determines
+  // the schema file
+  const inputOf = declarationsInput(schema);
+  const collections = inputOf([DeclarationType.COLLECTION]);
+  const everything = inputOf();
+
+  await Promise.all([
+    output.dtspath &&
+      write(output.dtspath, collections, () =>
+        schema.getTypescriptDefinitions(),
+      ),
+    output.fnspath &&
+      write(
+        output.fnspath,
+        output.typedfns ? everything : () => JSON.stringify(names),
+        () =>
+          generateFnsMapFile(
+            names,
+            output.typedfns ? typedFnsMapFileOptions(schema, output) : {},
+          ),
+      ),
+    output.validatorspath &&
+      write(output.validatorspath, collections, () =>
+        schema.getValidators({
+          target: output.validatorspath.endsWith(".json")
+            ? "json-schema"
+            : "zod",
+        }),
+      ),
+    output.schema?.path &&
+      write(output.schema.path, everything, () => schema.toString()),
+  ]);
+
+  return timings;
+}
+
+/**
+ * Merges and links the schemas, keeping mangled names stable with the link
+ * manifest if `output.manifestpath` is set.
+ *
+ * @param options.writeManifest - Whether to write the updated manifest, defaults to true.
+ * @returns The merged schema, the mangled names and the manifest report, or
+ *   `null` if no manifest is used.
+ */
+export async function linkSchemaFiles(
+  schemas: Schema[],
+  output?: OutputOptions,
+  options?: { writeManifest?: boolean },
+): Promise<
+  [
+    mergedSchema: Schema,
+    mangledNames: Record<string, string>,
+    report: LinkManifestReport | null,
+  ]
+> {
+  if (!output?.manifestpath) {
+    if (output?.mangling?.strategy === "versioned") {
+      throw new Error("The versioned mangling strategy requires a manifest");
+    }
+
+    return [...mergeSchemas(schemas, output?.mangling), null];
+  }
+
+  const [schema, names, manifest, report] = mergeSchemasWithManifest(
+    schemas,
+    await readLinkManifest(output.manifestpath),
+    output.mangling,
+  );
+
+  if (options?.writeManifest === false) {
+    return [schema, names, report];
+  }
+
+  try {
+    await writeLinkManifest(output.manifestpath, manifest);
+  } catch (err) {
+    schema.free();
+    throw err;
+  }
+
+  return [schema, names, report];
+}
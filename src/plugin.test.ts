@@ -0,0 +1,79 @@
+import * as fs from "node:fs/promises";
+import * as os from "node:os";
+import * as path from "node:path";
+import { afterEach, beforeEach, describe, expect, it } from "vitest";
+import { parseFnsMapFile } from "./fnsmap";
+import { faunaSchema } from "./plugin";
+
+let tempdir: string;
+
+beforeEach(async () => {
+  tempdir = await fs.mkdtemp(path.join(os.tmpdir(), "fst-plugin-"));
+});
+
+afterEach(async () => {
+  await fs.rm(tempdir, { recursive: true, force: true });
+});
+
+/**
+ * Runs `buildStart` and loads the virtual module like rollup would.
+ */
+async function build(plugin: ReturnType<typeof faunaSchema>): Promise<{
+  watched: string[];
+  names: Record<string, string>;
+}> {
+  const watched: string[] = [];
+  await (
+    plugin.buildStart as (this: { addWatchFile(id: string): void }) => void
+  ).call({ addWatchFile: (id: string) => watched.push(id) });
+
+  const resolveId = plugin.resolveId as (id: string) => string | null;
+  const load = plugin.load as (id: string) => string | null;
+  const id = resolveId("virtual:fauna-functions");
+
+  return { watched, names: parseFnsMapFile(load(id)) };
+}
+
+describe("faunaSchema", () => {
+  it("links the schema files into the virtual module", async () => {
+    const filename = path.join(tempdir, "main.fsl");
+    await fs.writeFile(
+      filename,
+      "function greet() {\n  1\n}\n\nfunction ping() {\n  greet()\n}\n",
+    );
+    const dtspath = path.join(tempdir, "schema.d.ts");
+    const plugin = faunaSchema({
+      schemapaths: path.join(tempdir, "*.fsl"),
+      dtspath,
+      mangling: { strategy: "none" },
+    });
+
+    const { watched, names } = await build(plugin);
+    expect(names).toEqual({ greet: "greet", ping: "ping" });
+    expect(watched).toEqual([tempdir, filename]);
+    await expect(fs.stat(dtspath)).resolves.toBeTruthy();
+
+    const resolveId = plugin.resolveId as (id: string) => string | null;
+    expect(resolveId("./other")).toBeNull();
+  });
+
+  it("keeps mangled names stable with a manifest", async () => {
+    await fs.writeFile(
+      path.join(tempdir, "main.fsl"),
+      "function greet() {\n  1\n}\n",
+    );
+    const options = {
+      schemapaths: path.join(tempdir, "*.fsl"),
+      manifestpath: path.join(tempdir, "fauna-functions.lock.json"),
+    };
+
+    const { names } = await build(faunaSchema(options));
+    expect(names.greet).not.toBe("greet");
+
+    await fs.writeFile(
+      path.join(tempdir, "main.fsl"),
+      "function greet() {\n\n    1\n}\n",
+    );
+    expect((await build(faunaSchema(options))).names).toEqual(names);
+  });
+});
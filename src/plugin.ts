@@ -0,0 +1,196 @@
+import * as path from "node:path";
+import type { Plugin } from "rollup";
+import anymatch from "anymatch";
+import globParent from "glob-parent";
+import { generateFnsMapFile } from "./fnsmap";
+import { initWasm, loadSchemas, type OutputOptions } from "./lib";
+import {
+  linkSchemaFiles,
+  typedFnsMapFileOptions,
+  writeSchemaOutputs,
+} from "./outputs";
+
+/**
+ * The function names are served by the virtual module, so `fnspath` and
+ * `schema.push` are not used by the plugin. With `typedfns`, the virtual
+ * module exports typed wrapper functions.
+ */
+export interface FaunaSchemaPluginOptions extends OutputOptions {
+  /**
+   * Paths to schema files (globs are supported).
+   */
+  schemapaths: string | string[];
+}
+
+/**
+ * The parts of the vite dev server that the plugin uses, so that vite is not
+ * required.
+ */
+interface ViteDevServer {
+  moduleGraph: {
+    getModuleById(id: string): ViteModuleNode | undefined;
+    invalidateModule(mod: ViteModuleNode): void;
+  };
+  watcher: {
+    add(paths: string | string[]): void;
+    on(event: "add" | "unlink", listener: (file: string) => void): void;
+  };
+  ws: {
+    send(
+      payload:
+        | { type: "full-reload" }
+        | { type: "error"; err: { message: string; stack: string } },
+    ): void;
+  };
+}
+
+type ViteModuleNode = object;
+
+const functionsModuleId = "virtual:fauna-functions";
+const resolvedFunctionsModuleId = `\0${functionsModuleId}`;
+
+/**
+ * Links the schema files at the start of every build and exposes the mangled
+ * function names through `import { myFn } from "virtual:fauna-functions"`.
+ *
+ * In the vite dev server, changes to the schema files link them again and
+ * update the modules that import the function names.
+ */
+export function faunaSchema(options: FaunaSchemaPluginOptions): Plugin & {
+  configureServer(server: ViteDevServer): void;
+  handleHotUpdate(ctx: {
+    file: string;
+    server: ViteDevServer;
+  }): Promise<ViteModuleNode[] | undefined>;
+} {
+  const schemapaths = Array.isArray(options.schemapaths)
+    ? options.schemapaths
+    : [options.schemapaths];
+  const isSchemaFile = anymatch(schemapaths);
+
+  let fnsMapFile = generateFnsMapFile({});
+
+  /**
+   * Links the schema files and writes the outputs.
+   *
+   * @returns The schema files.
+   */
+  async function build(): Promise<string[]> {
+    await initWasm();
+
+    const schemas = await loadSchemas(schemapaths);
+    try {
+      const [schema, names] = await linkSchemaFiles(
+        Object.values(schemas),
+        options,
+      );
+      try {
+        fnsMapFile = generateFnsMapFile(
+          names,
+          options.typedfns ? typedFnsMapFileOptions(schema, options) : {},
+        );
+
+        await writeSchemaOutputs(schema, names, {
+          ...options,
+          fnspath: undefined,
+        });
+      } finally {
+        schema.free();
+      }
+    } finally {
+      for (const schema of Object.values(schemas)) {
+        schema.free();
+      }
+    }
+
+    return Object.keys(schemas);
+  }
+
+  /**
+   * Links the schema files again and invalidates the virtual module.
+   *
+   * @returns The virtual module if it was loaded.
+   */
+  async function rebuild(
+    server: ViteDevServer,
+  ): Promise<ViteModuleNode | undefined> {
+    await build();
+
+    const mod = server.moduleGraph.getModuleById(resolvedFunctionsModuleId);
+    if (mod) {
+      server.moduleGraph.invalidateModule(mod);
+    }
+
+    return mod;
+  }
+
+  return {
+    name: "fauna-schema",
+
+    async buildStart() {
+      // watch the glob parents as well so that new files trigger a rebuild
+      for (const dir of new Set(schemapaths.map((p) => globParent(p)))) {
+        this.addWatchFile(dir);
+      }
+
+      for (const id of await build()) {
+        this.addWatchFile(id);
+      }
+    },
+
+    configureServer(server) {
+      server.watcher.add(schemapaths);
+
+      // vite only calls `handleHotUpdate` for changed files
+      const onAddOrUnlink = async (file: string) => {
+        if (!isSchemaFile(path.relative(process.cwd(), file))) {
+          return;
+        }
+
+        try {
+          if (await rebuild(server)) {
+            server.ws.send({ type: "full-reload" });
+          }
+        } catch (err) {
+          // shown in the error overlay, like errors from `handleHotUpdate`
+          server.ws.send({
+            type: "error",
+            err: {
+              message: err.message ?? String(err),
+              stack: err.stack ?? "",
+            },
+          });
+        }
+      };
+
+      server.watcher.on("add", onAddOrUnlink);
+      server.watcher.on("unlink", onAddOrUnlink);
+    },
+
+    async handleHotUpdate({ file, server }) {
+      if (!isSchemaFile(path.relative(process.cwd(), file))) {
+        return undefined;
+      }
+
+      // update the modules that import the function names
+      const mod = await rebuild(server);
+      return mod ? [mod] : [];
+    },
+
+    resolveId(id) {
+      if (id === functionsModuleId) {
+        return resolvedFunctionsModuleId;
+      }
+
+      return null;
+    },
+
+    load(id) {
+      if (id === resolvedFunctionsModuleId) {
+        return fnsMapFile;
+      }
+
+      return null;
+    },
+  };
+}
@@ -0,0 +1,287 @@
+import { beforeAll, describe, expect, it } from "vitest";
+import { printCollection, printFunction, printRole } from "./builder";
+import { initWasm } from "./lib";
+import { DeclarationType, Schema } from "./schema";
+
+beforeAll(() => initWasm());
+
+describe("Schema.renameDeclaration", () => {
+  const source = `
+collection User {
+  name: String
+}
+
+function helper(x) {
+  x
+}
+
+function calls(x) {
+  helper(x)
+}
+
+function shadowedByParameter(helper) {
+  helper
+}
+
+function shadowedByVariable() {
+  let helper = 1
+  helper + 1
+}
+
+function shadowedByLambda() {
+  [1, 2].map(helper => helper + 1)
+}
+
+function usesUser(id) {
+  User.byId(id)
+}
+
+function shadowsUser() {
+  let User = "user"
+  User
+}
+
+role reader {
+  privileges User {
+    read
+  }
+}
+
+@role(reader)
+function asReader() {
+  User.all()
+}
+
+access provider auth {
+  issuer "https://example.com"
+  jwks_uri "https://example.com/.well-known/jwks.json"
+  role reader
+}
+`;
+
+  it("renames calls to a function but not names that shadow it", () => {
+    using schema = Schema.parse(source, "main.fsl");
+    schema.renameDeclaration(DeclarationType.FUNCTION, "helper", "assist");
+
+    expect(schema.getFunction("helper")).toBeNull();
+    expect(schema.getFunction("assist")).not.toBeNull();
+    expect(schema.getFunction("calls").body).toContain("assist(x)");
+
+    const parameter = schema.getFunction("shadowedByParameter");
+    expect(parameter.parameters).toEqual([{ name: "helper", type: null }]);
+    expect(parameter.body).not.toContain("assist");
+
+    expect(schema.getFunction("shadowedByVariable").body).not.toContain(
+      "assist",
+    );
+    expect(schema.getFunction("shadowedByLambda").body).not.toContain("assist");
+  });
+
+  it("renames a collection but not a variable that shadows it", () => {
+    using schema = Schema.parse(source, "main.fsl");
+    schema.renameDeclaration(DeclarationType.COLLECTION, "User", "Account");
+
+    expect(schema.getCollection("Account")).not.toBeNull();
+    expect(schema.getFunction("usesUser").body).toContain("Account.byId(id)");
+    expect(schema.getFunction("shadowsUser").body).not.toContain("Account");
+    expect(schema.getRole("reader").privileges[0].resource).toBe("Account");
+  });
+
+  it("renames a role along with function and access provider roles", () => {
+    using schema = Schema.parse(source, "main.fsl");
+    schema.renameDeclaration(DeclarationType.ROLE, "reader", "viewer");
+
+    expect(schema.getRole("reader")).toBeNull();
+    expect(schema.getRole("viewer")).not.toBeNull();
+    expect(schema.getFunction("asReader").role).toBe("viewer");
+    expect(schema.getAccessProvider("auth").roles).toEqual([
+      { role: "viewer", predicate: null },
+    ]);
+  });
+
+  it("throws for declarations that do not exist or names that are taken", () => {
+    using schema = Schema.parse(source, "main.fsl");
+
+    expect(() =>
+      schema.renameDeclaration(DeclarationType.FUNCTION, "missing", "other"),
+    ).toThrow("The function missing does not exist");
+    expect(() =>
+      schema.renameDeclaration(DeclarationType.FUNCTION, "helper", "calls"),
+    ).toThrow();
+  });
+});
+
+describe("Schema.linkFunctions", () => {
+  it("does not mangle parameters that shadow a function", () => {
+    using schema = Schema.parse(
+      "function helper(x) {\n  x\n}\n\nfunction caller(helper) {\n  helper\n}\n",
+      "main.fsl",
+    );
+    const names = schema.linkFunctions();
+
+    const caller = schema.getFunction(names.caller);
+    expect(caller.parameters).toEqual([{ name: "helper", type: null }]);
+    expect(caller.body).toBe("helper");
+  });
+});
+
+describe("Schema inspection", () => {
+  const source = `
+collection User {
+  email: String
+  name: String = "anonymous"
+  compute display: String = (user => user.name)
+
+  index byEmail {
+    terms [.email]
+  }
+
+  unique [.email]
+  history_days 3
+}
+
+@role(admin)
+@alias(greetUser)
+function greet(user: User, greeting: String): String {
+  greeting + ", " + user.name
+}
+
+role admin {
+  privileges User {
+    read
+    write {
+      predicate (user => user.name != "root")
+    }
+  }
+  privileges greet {
+    call
+  }
+  membership User
+}
+
+access provider auth {
+  issuer "https://example.com"
+  jwks_uri "https://example.com/.well-known/jwks.json"
+  role admin
+}
+`;
+
+  function withoutLocation<T extends { location: unknown }>(
+    decl: T,
+  ): Omit<T, "location"> {
+    const { location, ...rest } = decl;
+    return rest;
+  }
+
+  it("returns the details of each declaration", () => {
+    using schema = Schema.parse(source, "main.fsl");
+
+    expect(schema.getFunction("greet")).toMatchObject({
+      name: "greet",
+      alias: "greetUser",
+      role: "admin",
+      parameters: [
+        { name: "user", type: "User" },
+        { name: "greeting", type: "String" },
+      ],
+      returnType: "String",
+      location: expect.objectContaining({ file: "main.fsl" }),
+    });
+    expect(schema.getFunction("greet").body).toContain("user.name");
+
+    const user = schema.getCollection("User");
+    expect(user.fields).toEqual([
+      { name: "email", type: "String", default: null },
+      { name: "name", type: "String", default: '"anonymous"' },
+    ]);
+    expect(user.computedFields.map((field) => field.name)).toEqual(["display"]);
+    expect(user.indexes).toHaveLength(1);
+    expect(user.indexes[0].name).toBe("byEmail");
+    expect(user.constraints).toEqual([
+      { type: "unique", terms: [expect.stringContaining("email")] },
+    ]);
+    expect(user.historyDays).toBe(3);
+    expect(user.ttlDays).toBeNull();
+
+    const admin = schema.getRole("admin");
+    expect(admin.privileges).toEqual([
+      {
+        resource: "User",
+        actions: [
+          { action: "read", predicate: null },
+          { action: "write", predicate: expect.stringContaining("root") },
+        ],
+      },
+      { resource: "greet", actions: [{ action: "call", predicate: null }] },
+    ]);
+    expect(admin.membership).toEqual([{ collection: "User", predicate: null }]);
+
+    expect(schema.getAccessProvider("auth")).toMatchObject({
+      issuer: "https://example.com",
+      jwksUri: "https://example.com/.well-known/jwks.json",
+      roles: [{ role: "admin", predicate: null }],
+    });
+  });
+
+  it("returns null for declarations that do not exist", () => {
+    using schema = Schema.parse(source, "main.fsl");
+
+    expect(schema.getFunction("missing")).toBeNull();
+    expect(schema.getCollection("greet")).toBeNull();
+    expect(schema.getRole("User")).toBeNull();
+    expect(schema.getAccessProvider("admin")).toBeNull();
+  });
+
+  it("round-trips declarations through the builder", () => {
+    using schema = Schema.parse(source, "main.fsl");
+    const fn = schema.getFunction("greet");
+    const collection = schema.getCollection("User");
+    const role = schema.getRole("admin");
+
+    using printed = Schema.parse(
+      [
+        printCollection({
+          name: collection.name,
+          fields: collection.fields.map((field) => ({
+            name: field.name,
+            type: field.type,
+            default: field.default ?? undefined,
+          })),
+          computedFields: collection.computedFields.map((field) => ({
+            name: field.name,
+            type: field.type ?? undefined,
+            body: field.body,
+          })),
+          indexes: collection.indexes,
+          unique: collection.constraints.flatMap((constraint) =>
+            constraint.type === "unique" ? [constraint.terms] : [],
+          ),
+          historyDays: collection.historyDays ?? undefined,
+        }),
+        printFunction({
+          name: fn.name,
+          alias: fn.alias ?? undefined,
+          role: fn.role ?? undefined,
+          parameters: fn.parameters.map((parameter) => ({
+            name: parameter.name,
+            type: parameter.type ?? undefined,
+          })),
+          returnType: fn.returnType ?? undefined,
+          body: fn.body,
+        }),
+        printRole(role),
+      ].join("\n"),
+      "printed.fsl",
+    );
+
+    expect(withoutLocation(printed.getCollection("User"))).toEqual(
+      withoutLocation(collection),
+    );
+    expect(withoutLocation(printed.getFunction("greet"))).toEqual(
+      withoutLocation(fn),
+    );
+    expect(withoutLocation(printed.getRole("admin"))).toEqual(
+      withoutLocation(role),
+    );
+  });
+});
@@ -1,4 +1,30 @@
 import type { OpaqueStruct } from "zbind";
+import {
+  type CollectionDefinition,
+  type FieldDefinition,
+  type FunctionDefinition,
+  type IndexDefinition,
+  type PrivilegeAction,
+  type RoleAction,
+  insertMember,
+  printCollection,
+  printField,
+  printFunction,
+  printIndex,
+  printRole,
+} from "./builder";
+import type {
+  AccessProviderDeclaration,
+  CollectionDeclaration,
+  FunctionDeclaration,
+  RoleDeclaration,
+} from "./declarations";
+import {
+  type DependencyEdge,
+  type DependencyGraph,
+  type DependencyNode,
+  findCollectionAccess,
+} from "./graph";
 import * as zig from "./zig";
 
 let initialized = false;
@@ -8,12 +34,186 @@ export function init(source?: BufferSource | string) {
   initialized = true;
 }
 
+export function isInitialized(): boolean {
+  return initialized;
+}
+
 function assertInitialized(): void {
   if (!initialized) {
     throw new Error("WASM was not initialized");
   }
 }
 
+export interface SchemaDiagnostic {
+  file: string;
+
+  /**
+   * 1-based line number.
+   */
+  line: number;
+
+  /**
+   * 1-based column number.
+   */
+  column: number;
+
+  /**
+   * Character offsets into the source.
+   */
+  span: { start: number; end: number };
+
+  severity: "error" | "warning";
+
+  /**
+   * The name of the error, e.g. `UnexpectedToken`.
+   */
+  code: string;
+
+  message: string;
+}
+
+export class SchemaError extends Error {
+  constructor(
+    message: string,
+    public readonly diagnostics: SchemaDiagnostic[],
+  ) {
+    super(message);
+  }
+}
+
+export class SchemaParseError extends SchemaError {}
+
+/**
+ * Retrieves the details of the last error from the WASM module.
+ *
+ * @param source - The source that was being parsed, used to resolve the error offsets to a line and column.
+ */
+function takeDiagnostic(source?: string): SchemaDiagnostic {
+  const json = zig.takeLastError();
+  const details: {
+    code: string;
+    file?: string;
+    message?: string;
+    start?: number;
+    end?: number;
+  } = json ? JSON.parse(json.toString()) : { code: "Unknown" };
+  if (json) {
+    zig.freeBytes(json);
+  }
+
+  const diagnostic: SchemaDiagnostic = {
+    file: details.file ?? "memory",
+    line: 1,
+    column: 1,
+    span: { start: 0, end: 0 },
+    severity: "error",
+    code: details.code,
+    message:
+      details.message ??
+      // UnexpectedToken -> unexpected token
+      details.code
+        .replace(/([a-z0-9])([A-Z])/g, "$1 $2")
+        .toLowerCase(),
+  };
+
+  if (source !== undefined && details.start !== undefined) {
+    // the offsets are in bytes, but the span is in characters
+    const bytes = Buffer.from(source);
+    const start = bytes.subarray(0, details.start).toString().length;
+    const end = bytes
+      .subarray(0, details.end ?? details.start)
+      .toString().length;
+    const lines = source.slice(0, start).split("\n");
+    diagnostic.line = lines.length;
+    diagnostic.column = lines[lines.length - 1].length + 1;
+    diagnostic.span = { start, end };
+  }
+
+  return diagnostic;
+}
+
+function createSchemaError(message: string): SchemaError {
+  const diagnostic = takeDiagnostic();
+  return new SchemaError(`${message}: ${diagnostic.message}`, [diagnostic]);
+}
+
+function tidyCanonical(str: string): string {
+  return (
+    str
+      .replace(/\n\n\n+/gm, "\n\n")
+      .replace(/\n}\n([a-z])/gm, "\n}\n\n$1")
+      .trim() + "\n"
+  );
+}
+
+export interface FunctionSignature {
+  name: string;
+
+  /**
+   * Parameters with their types converted to typescript.
+   */
+  parameters: Array<{ name: string; type: string }>;
+
+  /**
+   * The return type converted to typescript.
+   */
+  returnType: string;
+}
+
+/**
+ * The references of a declaration as resolved by the linker.
+ */
+export interface FunctionReferences {
+  type: DeclarationType;
+  name: string;
+
+  /**
+   * Declared functions that are referenced from the body or predicates,
+   * including references that are not calls, e.g. `arr.map(myFn)`.
+   */
+  functions: string[];
+
+  /**
+   * Names called like `name(...)` that are neither declared functions nor
+   * parameters or variables, e.g. builtins, collections or missing functions.
+   */
+  undeclaredCalls: string[];
+}
+
+export type ValidatorTarget = "zod" | "json-schema";
+
+/**
+ * How linked functions are named:
+ * - `hash`: `name_<hash>`, the full 40 character hash by default
+ * - `prefix-hash`: `name_<short hash>`, 6 characters of the hash by default
+ * - `versioned`: `name_v<version>`, with versions usually kept in a manifest
+ * - `none`: the original name, only suitable for dev databases
+ */
+export type ManglingStrategy = "hash" | "prefix-hash" | "versioned" | "none";
+
+export interface LinkFunctionsOptions {
+  strategy?: ManglingStrategy;
+
+  /**
+   * Number of hash characters for the `hash` and `prefix-hash` strategies,
+   * between 6 and 40. Defaults to 40 for `hash` and 6 for `prefix-hash`.
+   */
+  hashLength?: number;
+
+  /**
+   * Version of each function by original name for the `versioned` strategy,
+   * defaults to 1.
+   */
+  versions?: Record<string, number>;
+
+  /**
+   * Names from a previous link with the `hash` strategy and full hash length,
+   * for functions whose content and dependencies did not change since. These
+   * are reused instead of hashing the functions again.
+   */
+  linked?: Record<string, string>;
+}
+
 export enum DeclarationType {
   ACCESS_PROVIDER = "access_provider",
   COLLECTION = "collection",
@@ -50,7 +250,11 @@ export class Schema {
 
     const tree = zig.parseSchemaTree(strSchema, filename || null);
     if (!tree) {
-      throw new Error("Failed to parse schema");
+      const diagnostic = takeDiagnostic(strSchema);
+      throw new SchemaParseError(
+        `Failed to parse ${diagnostic.file}:${diagnostic.line}:${diagnostic.column}: ${diagnostic.message}`,
+        [diagnostic],
+      );
     }
 
     return new Schema(tree);
@@ -68,24 +272,97 @@ export class Schema {
     zig.sortSchemaTree(this.#data);
   }
 
-  public linkFunctions(): Record<string, string> {
-    const json = zig.linkFunctions(this.#data);
+  /**
+   * Renames functions so that every change results in a new name, and updates
+   * all references to them.
+   *
+   * @returns A map of original function names to their new names.
+   */
+  public linkFunctions(options?: LinkFunctionsOptions): Record<string, string> {
+    const json = zig.linkFunctions(
+      this.#data,
+      options?.linked ? JSON.stringify(options.linked) : null,
+    );
     if (!json) {
-      throw new Error("Failed to link functions");
+      throw createSchemaError("Failed to link functions");
     }
 
+    let names: Record<string, string>;
     try {
-      return JSON.parse(json.toString());
+      names = JSON.parse(json.toString());
     } finally {
       zig.freeBytes(json);
     }
+
+    return this.applyManglingStrategy(names, options);
+  }
+
+  /**
+   * Renames functions linked with the `hash` strategy and full hash length
+   * according to another strategy.
+   *
+   * @param linkedNames - A map of original function names to linked names, as
+   *   returned by `linkFunctions` without options.
+   * @returns A map of original function names to their new names.
+   */
+  public applyManglingStrategy(
+    linkedNames: Record<string, string>,
+    options?: LinkFunctionsOptions,
+  ): Record<string, string> {
+    const names = { ...linkedNames };
+    const strategy = options?.strategy ?? "hash";
+    const hashLength =
+      options?.hashLength ?? (strategy === "prefix-hash" ? 6 : 40);
+    if (hashLength < 6 || hashLength > 40) {
+      throw new RangeError("hashLength must be between 6 and 40");
+    }
+
+    // the linker always produces `name_<40 character hash>`
+    const renames: Record<string, string> = {};
+    for (const [original, mangled] of Object.entries(names)) {
+      let name: string;
+      switch (strategy) {
+        case "hash":
+        case "prefix-hash":
+          name = `${original}_${mangled.slice(original.length + 1, original.length + 1 + hashLength)}`;
+          break;
+        case "versioned":
+          name = `${original}_v${options?.versions?.[original] ?? 1}`;
+          break;
+        case "none":
+          name = original;
+          break;
+      }
+
+      if (name !== mangled) {
+        renames[mangled] = name;
+        names[original] = name;
+      }
+    }
+
+    if (Object.keys(renames).length) {
+      this.renameFunctions(renames);
+    }
+
+    return names;
+  }
+
+  /**
+   * Renames functions and updates all references to them.
+   *
+   * @param names - A map of current function names to new function names.
+   */
+  public renameFunctions(names: Record<string, string>): void {
+    if (!zig.renameFunctions(this.#data, JSON.stringify(names))) {
+      throw createSchemaError("Failed to rename functions");
+    }
   }
 
   public merge(schemas: Schema | Schema[]): this {
     for (const other of Array.isArray(schemas) ? schemas : [schemas]) {
       const tree = zig.mergeSchemas(this.#data, other.#data);
       if (!tree) {
-        throw new Error("Failed to merge schemas");
+        throw createSchemaError("Failed to merge schemas");
       }
 
       this.#data = tree;
@@ -97,7 +374,7 @@ export class Schema {
   public mergeRoles(): this {
     const tree = zig.mergeRoles(this.#data);
     if (!tree) {
-      throw new Error("Failed to merge roles");
+      throw createSchemaError("Failed to merge roles");
     }
 
     this.#data = tree;
@@ -111,7 +388,7 @@ export class Schema {
   public getTypescriptDefinitions(): string {
     const str = zig.generateTypescriptDefinitions(this.#data);
     if (!str) {
-      throw new Error("Failed to generate typescript definitions");
+      throw createSchemaError("Failed to generate typescript definitions");
     }
 
     try {
@@ -121,13 +398,67 @@ export class Schema {
     }
   }
 
+  /**
+   * Returns runtime validators for the fields of each collection. The zod
+   * target returns a typescript module exporting a schema per collection,
+   * while the json-schema target returns a json document with a definition per
+   * collection in `$defs`.
+   */
+  public getValidators(options: { target: ValidatorTarget }): string {
+    const str = zig.generateValidators(
+      this.#data,
+      options.target.replace("-", "_"),
+    );
+    if (!str) {
+      throw createSchemaError("Failed to generate validators");
+    }
+
+    try {
+      const validators = str.toString();
+      return options.target === "json-schema"
+        ? `${JSON.stringify(JSON.parse(validators), null, 2)}\n`
+        : validators;
+    } finally {
+      zig.freeBytes(str);
+    }
+  }
+
+  /**
+   * Returns the signatures of all functions with their types converted to
+   * typescript in the same way as `getTypescriptDefinitions`.
+   */
+  public getFunctionSignatures(): FunctionSignature[] {
+    const json = zig.getFunctionSignatures(this.#data);
+    if (!json) {
+      throw createSchemaError("Failed to get function signatures");
+    }
+
+    try {
+      return JSON.parse(json.toString());
+    } finally {
+      zig.freeBytes(json);
+    }
+  }
+
   /**
    * Creates a new schema using only declarations of the specified type from the current schema.
    */
   public filterByType(type: DeclarationType): Schema {
     const tree = zig.filterSchemaTreeByType(this.#data, type);
     if (!tree) {
-      throw new Error("Failed to filter schema by type");
+      throw createSchemaError("Failed to filter schema by type");
+    }
+
+    return new Schema(tree);
+  }
+
+  /**
+   * Creates a new schema using only declarations of the specified type and name from the current schema.
+   */
+  public filterByName(type: DeclarationType, name: string): Schema {
+    const tree = zig.filterSchemaTreeByName(this.#data, type, name);
+    if (!tree) {
+      throw createSchemaError("Failed to filter schema by name");
     }
 
     return new Schema(tree);
@@ -158,8 +489,181 @@ export class Schema {
         resourceName,
       )
     ) {
-      throw new Error("Failed to remove resource from roles");
+      throw createSchemaError("Failed to remove resource from roles");
+    }
+  }
+
+  #assertAvailable(type: DeclarationType, name: string): void {
+    if (this.#inspect(type, name)) {
+      throw new Error(`The ${type} ${name} already exists`);
+    }
+  }
+
+  /**
+   * Replaces a declaration with the parsed content, which is added at the end
+   * of the schema. The declaration is kept if the content fails to parse.
+   */
+  #replaceDeclaration(
+    type: DeclarationType,
+    name: string,
+    content: string,
+  ): void {
+    const replacement = Schema.parse(content);
+    this.removeDeclaration(type, name);
+    this.merge(replacement);
+  }
+
+  #collectionContent(name: string): string {
+    const collection = this.getCollection(name);
+    if (!collection) {
+      throw new Error(`The collection ${name} does not exist`);
+    }
+
+    return collection.content;
+  }
+
+  /**
+   * Adds a new collection, throws if it already exists.
+   */
+  public addCollection(definition: CollectionDefinition): this {
+    this.#assertAvailable(DeclarationType.COLLECTION, definition.name);
+    return this.merge(Schema.parse(printCollection(definition)));
+  }
+
+  /**
+   * Adds a field to the end of an existing collection.
+   */
+  public addField(collection: string, field: FieldDefinition): this {
+    this.#replaceDeclaration(
+      DeclarationType.COLLECTION,
+      collection,
+      insertMember(this.#collectionContent(collection), printField(field)),
+    );
+    return this;
+  }
+
+  /**
+   * Adds an index to the end of an existing collection.
+   */
+  public addIndex(collection: string, index: IndexDefinition): this {
+    this.#replaceDeclaration(
+      DeclarationType.COLLECTION,
+      collection,
+      insertMember(this.#collectionContent(collection), printIndex(index)),
+    );
+    return this;
+  }
+
+  /**
+   * Adds a new function, throws if it already exists.
+   */
+  public addFunction(definition: FunctionDefinition): this {
+    this.#assertAvailable(DeclarationType.FUNCTION, definition.name);
+    return this.merge(Schema.parse(printFunction(definition)));
+  }
+
+  /**
+   * Allows a role to perform actions on a resource, creating the role if it
+   * does not exist. Actions the role already has are replaced, so a predicate
+   * can be changed or removed by granting the action again.
+   */
+  public grantPrivilege(
+    role: string,
+    resource: string,
+    actions: PrivilegeAction[],
+  ): this {
+    const existing = this.getRole(role);
+    const updated = existing ?? { name: role, privileges: [], membership: [] };
+
+    let privileges = updated.privileges.find((p) => p.resource === resource);
+    if (!privileges) {
+      privileges = { resource, actions: [] };
+      updated.privileges.push(privileges);
+    }
+
+    for (const granted of actions) {
+      const action =
+        typeof granted === "string"
+          ? { action: granted, predicate: null }
+          : granted;
+      const index = privileges.actions.findIndex(
+        (a) => a.action === action.action,
+      );
+      if (index === -1) {
+        privileges.actions.push(action);
+      } else {
+        privileges.actions[index] = action;
+      }
+    }
+
+    if (existing) {
+      this.#replaceDeclaration(DeclarationType.ROLE, role, printRole(updated));
+    } else {
+      this.merge(Schema.parse(printRole(updated)));
+    }
+
+    return this;
+  }
+
+  /**
+   * Removes actions on a resource from a role, or all of them if `actions` is
+   * not set.
+   *
+   * @returns Whether any action was removed.
+   */
+  public revokePrivilege(
+    role: string,
+    resource: string,
+    actions?: RoleAction[],
+  ): boolean {
+    const existing = this.getRole(role);
+    const privileges = existing?.privileges.find(
+      (p) => p.resource === resource,
+    );
+    if (!privileges) {
+      return false;
+    }
+
+    const remaining = actions
+      ? privileges.actions.filter(
+          ({ action }) => !actions.includes(action as RoleAction),
+        )
+      : [];
+    if (remaining.length === privileges.actions.length) {
+      return false;
+    }
+
+    privileges.actions = remaining;
+    if (!remaining.length) {
+      existing.privileges = existing.privileges.filter((p) => p !== privileges);
+    }
+
+    this.#replaceDeclaration(DeclarationType.ROLE, role, printRole(existing));
+    return true;
+  }
+
+  /**
+   * Renames a declaration and updates the references to it in functions,
+   * role predicates, privileges and membership, as well as the roles of
+   * functions and access providers when renaming a role. Parameters and
+   * variables with the same name are left alone, along with their uses.
+   */
+  public renameDeclaration(
+    type: DeclarationType,
+    name: string,
+    newName: string,
+  ): this {
+    if (!this.#inspect(type, name)) {
+      throw new Error(`The ${type} ${name} does not exist`);
     }
+
+    this.#assertAvailable(type, newName);
+
+    if (!zig.renameDeclaration(this.#data, type, name, newName)) {
+      throw createSchemaError("Failed to rename declaration");
+    }
+
+    return this;
   }
 
   public get declarations(): Array<
@@ -175,7 +679,7 @@ export class Schema {
   > {
     const json = zig.listSchemaTreeDeclarations(this.#data);
     if (!json) {
-      throw new Error("Failed to list declarations");
+      throw createSchemaError("Failed to list declarations");
     }
 
     try {
@@ -185,6 +689,62 @@ export class Schema {
     }
   }
 
+  #inspect<T extends { content: string }>(
+    type: DeclarationType,
+    name: string,
+  ): T | null {
+    const json = zig.inspectDeclaration(this.#data, type, name);
+    if (!json) {
+      throw createSchemaError("Failed to inspect declaration");
+    }
+
+    let decl: T | null;
+    try {
+      decl = JSON.parse(json.toString());
+    } finally {
+      zig.freeBytes(json);
+    }
+
+    return decl && { ...decl, content: tidyCanonical(decl.content) };
+  }
+
+  /**
+   * Returns the details of a function, or `null` if there is no such function.
+   */
+  public getFunction(name: string): FunctionDeclaration | null {
+    return this.#inspect<FunctionDeclaration>(DeclarationType.FUNCTION, name);
+  }
+
+  /**
+   * Returns the details of a collection, or `null` if there is no such
+   * collection.
+   */
+  public getCollection(name: string): CollectionDeclaration | null {
+    return this.#inspect<CollectionDeclaration>(
+      DeclarationType.COLLECTION,
+      name,
+    );
+  }
+
+  /**
+   * Returns the privileges and membership of a role, or `null` if there is no
+   * such role.
+   */
+  public getRole(name: string): RoleDeclaration | null {
+    return this.#inspect<RoleDeclaration>(DeclarationType.ROLE, name);
+  }
+
+  /**
+   * Returns the details of an access provider, or `null` if there is no such
+   * access provider.
+   */
+  public getAccessProvider(name: string): AccessProviderDeclaration | null {
+    return this.#inspect<AccessProviderDeclaration>(
+      DeclarationType.ACCESS_PROVIDER,
+      name,
+    );
+  }
+
   /**
    * Convert the schema to a string.
    * @param mangledNames - A map of mangled names to their original names. This is the same as the output of `linkFunctions`.
@@ -205,22 +765,179 @@ export class Schema {
         : null,
     );
     if (!str) {
-      throw new Error("Failed to print canonical tree");
+      throw createSchemaError("Failed to print canonical tree");
     }
 
     try {
-      return (
-        str
-          .toString()
-          .replace(/\n\n\n+/gm, "\n\n")
-          .replace(/\n}\n([a-z])/gm, "\n}\n\n$1")
-          .trim() + "\n"
-      );
+      return tidyCanonical(str.toString());
     } finally {
       zig.freeBytes(str);
     }
   }
 
+  /**
+   * Convert each declaration to a string on its own.
+   */
+  public printDeclarations(): Array<{
+    type: DeclarationType;
+    name: string;
+    content: string;
+  }> {
+    const json = zig.printCanonicalDeclarations(this.#data);
+    if (!json) {
+      throw createSchemaError("Failed to print declarations");
+    }
+
+    try {
+      return JSON.parse(json.toString()).map(
+        (decl: { type: DeclarationType; name: string; content: string }) => ({
+          ...decl,
+          content: tidyCanonical(decl.content),
+        }),
+      );
+    } finally {
+      zig.freeBytes(json);
+    }
+  }
+
+  /**
+   * Prints each function with its parameters and variables renamed by the
+   * order they are bound in, so that functions that only differ in those
+   * names print the same. The output is meant for comparison, it does not
+   * parse.
+   */
+  public printNormalizedFunctions(): Record<string, string> {
+    const json = zig.printNormalizedFunctions(this.#data);
+    if (!json) {
+      throw createSchemaError("Failed to print functions");
+    }
+
+    try {
+      return JSON.parse(json.toString());
+    } finally {
+      zig.freeBytes(json);
+    }
+  }
+
+  /**
+   * Returns groups of functions that depend on each other in a cycle.
+   */
+  public findFunctionCycles(): string[][] {
+    const json = zig.findFunctionCycles(this.#data);
+    if (!json) {
+      throw createSchemaError("Failed to find function cycles");
+    }
+
+    try {
+      return JSON.parse(json.toString());
+    } finally {
+      zig.freeBytes(json);
+    }
+  }
+
+  /**
+   * Returns the functions referenced by each declaration, resolved the same
+   * way as by `linkFunctions`. Only functions in this schema are resolved.
+   */
+  public getFunctionReferences(): FunctionReferences[] {
+    const json = zig.getFunctionReferences(this.#data);
+    if (!json) {
+      throw createSchemaError("Failed to get function references");
+    }
+
+    try {
+      return JSON.parse(json.toString());
+    } finally {
+      zig.freeBytes(json);
+    }
+  }
+
+  /**
+   * Returns the declarations with the dependencies between them: calls from
+   * function bodies and predicates, collection accesses that are visible
+   * from the collection name, privileges and membership.
+   */
+  public getDependencyGraph(): DependencyGraph {
+    const nodes = new Map<string, DependencyNode>();
+    for (const { type, name } of this.declarations) {
+      nodes.set(`${type}:${name}`, { id: `${type}:${name}`, type, name });
+    }
+
+    const edges = new Map<string, DependencyEdge>();
+    const addEdge = (edge: DependencyEdge) => {
+      // roles and access providers may refer to builtin or missing resources
+      if (nodes.has(edge.from) && nodes.has(edge.to)) {
+        edges.set(`${edge.from} ${edge.kind} ${edge.to}`, edge);
+      }
+    };
+
+    for (const { type, name, functions } of this.getFunctionReferences()) {
+      for (const called of functions) {
+        addEdge({
+          from: `${type}:${name}`,
+          to: `${DeclarationType.FUNCTION}:${called}`,
+          kind: "calls",
+        });
+      }
+    }
+
+    const collections = new Set(
+      Array.from(nodes.values())
+        .filter((node) => node.type === DeclarationType.COLLECTION)
+        .map((node) => node.name),
+    );
+    for (const { type, name, content } of this.printDeclarations()) {
+      if (type !== DeclarationType.FUNCTION) {
+        continue;
+      }
+
+      for (const [collection, kinds] of findCollectionAccess(
+        content,
+        collections,
+      )) {
+        for (const kind of kinds) {
+          addEdge({
+            from: `${type}:${name}`,
+            to: `${DeclarationType.COLLECTION}:${collection}`,
+            kind,
+          });
+        }
+      }
+    }
+
+    for (const node of nodes.values()) {
+      if (node.type !== DeclarationType.ROLE) {
+        continue;
+      }
+
+      const role = this.getRole(node.name);
+      for (const { resource, actions } of role.privileges) {
+        const to = nodes.has(`${DeclarationType.FUNCTION}:${resource}`)
+          ? `${DeclarationType.FUNCTION}:${resource}`
+          : `${DeclarationType.COLLECTION}:${resource}`;
+        addEdge({
+          from: node.id,
+          to,
+          kind: "grants",
+          actions: actions.map(({ action }) => action),
+        });
+      }
+
+      for (const { collection } of role.membership) {
+        addEdge({
+          from: node.id,
+          to: `${DeclarationType.COLLECTION}:${collection}`,
+          kind: "membership",
+        });
+      }
+    }
+
+    return {
+      nodes: Array.from(nodes.values()),
+      edges: Array.from(edges.values()),
+    };
+  }
+
   public free(): void {
     zig.deinitSchemaTree(this.#data);
   }
@@ -232,7 +949,7 @@ export class Schema {
   public clone(): Schema {
     const tree = zig.cloneSchemaTree(this.#data);
     if (!tree) {
-      throw new Error("Failed to clone schema");
+      throw createSchemaError("Failed to clone schema");
     }
 
     return new Schema(tree);
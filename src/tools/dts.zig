@@ -3,7 +3,7 @@ const testing = std.testing;
 
 const fauna = @import("fauna");
 
-fn isOptionalType(fql_type: fauna.FQLType) bool {
+pub fn isOptionalType(fql_type: fauna.FQLType) bool {
     switch (fql_type) {
         .optional => {
             return true;
@@ -167,6 +167,64 @@ fn printConvertedType(writer: anytype, fql_type: fauna.FQLType) @TypeOf(writer).
     }
 }
 
+fn printField(w: anytype, field: anytype, force_optional: bool) !void {
+    try std.fmt.format(w, "    {s}", .{field.name});
+    if (@typeInfo(@TypeOf(field.type)) == .Optional) {
+        if (field.type) |field_type| {
+            const optional = force_optional or isOptionalType(field_type);
+            if (optional) {
+                try w.writeByte('?');
+            }
+
+            try w.writeAll(": ");
+
+            try printConvertedType(w, field_type);
+        } else {
+            if (force_optional) {
+                try w.writeByte('?');
+            }
+
+            try std.fmt.format(w, ": any", .{});
+        }
+    } else {
+        const optional = force_optional or isOptionalType(field.type);
+        if (optional) {
+            try w.writeByte('?');
+        }
+
+        try w.writeAll(": ");
+
+        try printConvertedType(w, field.type);
+    }
+
+    try std.fmt.format(w, ";\n", .{});
+}
+
+/// Returns the text of a name, which is either a text node or a plain string
+/// depending on the node.
+pub fn nodeText(node: anytype) []const u8 {
+    return if (comptime @TypeOf(node) == []const u8) node else node.text;
+}
+
+pub fn hasField(comptime T: type, comptime name: []const u8) bool {
+    return switch (@typeInfo(T)) {
+        .Struct, .Union => @hasField(T, name),
+        else => false,
+    };
+}
+
+pub fn hasDefault(field: anytype) bool {
+    if (comptime hasField(@TypeOf(field), "default")) {
+        if (@typeInfo(@TypeOf(field.default)) == .Optional) {
+            return field.default != null;
+        }
+
+        return true;
+    } else {
+        return false;
+    }
+}
+
 fn printTypescriptType(w: anytype, col: fauna.SchemaDefinition.Collection) !void {
     try std.fmt.format(w, "export type {s} = {{\n", .{col.name});
 
@@ -179,34 +237,35 @@ fn printTypescriptType(w: anytype, col: fauna.SchemaDefinition.Collection) !void
 
             switch (member) {
                 inline .field, .computed_field => |field| {
-                    try std.fmt.format(w, "    {s}", .{field.name});
-                    if (@typeInfo(@TypeOf(field.type)) == .Optional) {
-                        if (field.type) |field_type| {
-                            const optional = isOptionalType(field_type);
-                            if (optional) {
-                                try w.writeByte('?');
-                            }
+                    try printField(w, field, false);
+                },
+                else => {},
+            }
+        }
+    }
 
-                            try w.writeAll(": ");
+    if (!has_fields) {
+        try std.fmt.format(w, "    [name: string]: any;\n", .{});
+    }
 
-                            try printConvertedType(w, field_type);
-                        } else {
-                            try std.fmt.format(w, ": any", .{});
-                        }
-                    } else {
-                        const optional = isOptionalType(field.type);
-                        if (optional) {
-                            try w.writeByte('?');
-                        }
+    try std.fmt.format(w, "}}\n\n", .{});
 
-                        try w.writeAll(": ");
+    if (col.alias != null and col.alias.?.value == .identifier) {
+        try std.fmt.format(w, "export type {s} = {s};\n\n", .{ col.alias.?.value.identifier.text, col.name });
+    }
+}
 
-                        try printConvertedType(w, field.type);
-                    }
+/// Prints the input types for creating and updating documents, which exclude
+/// computed fields and make fields with defaults optional.
+fn printTypescriptInputTypes(w: anytype, col: fauna.SchemaDefinition.Collection) !void {
+    try std.fmt.format(w, "export type {s}Create = {{\n", .{col.name});
 
-                    try std.fmt.format(w, ";\n", .{});
-                },
-                else => {},
+    var has_fields = false;
+    if (col.members) |members| {
+        for (members) |member| {
+            if (member == .field) {
+                has_fields = true;
+                try printField(w, member.field, hasDefault(member.field));
             }
         }
     }
@@ -217,9 +276,125 @@ fn printTypescriptType(w: anytype, col: fauna.SchemaDefinition.Collection) !void
 
     try std.fmt.format(w, "}}\n\n", .{});
 
-    if (col.alias != null and col.alias.?.value == .identifier) {
-        try std.fmt.format(w, "export type {s} = {s};\n\n", .{ col.alias.?.value.identifier.text, col.name });
+    try std.fmt.format(w, "export type {s}Update = Partial<{s}Create>;\n\n", .{ col.name, col.name });
+}
+
+fn optionalSlice(value: anytype) switch (@typeInfo(@TypeOf(value))) {
+    .Optional => |info| info.child,
+    else => @TypeOf(value),
+} {
+    if (@typeInfo(@TypeOf(value)) == .Optional) {
+        return value orelse &.{};
+    }
+
+    return value;
+}
+
+/// Prints the type of the field referenced by a path like `.a.b` or
+/// `mva(.a)`, falling back to `any` for anything else.
+fn printPathType(w: anytype, allocator: std.mem.Allocator, collection_name: []const u8, expr: anytype) !void {
+    const T = @TypeOf(expr);
+    const printable = comptime switch (@typeInfo(T)) {
+        .Struct, .Union => @hasDecl(T, "printCanonical"),
+        else => false,
+    };
+
+    if (comptime !printable) {
+        try w.writeAll("any");
+    } else {
+        var buf = std.ArrayList(u8).init(allocator);
+        defer buf.deinit();
+
+        try expr.printCanonical(buf.writer().any(), "");
+
+        var path = std.mem.trim(u8, buf.items, " \t\r\n");
+        const mva = std.mem.startsWith(u8, path, "mva(") and std.mem.endsWith(u8, path, ")");
+        if (mva) {
+            path = path[4 .. path.len - 1];
+        }
+
+        if (path.len < 2 or path[0] != '.') {
+            return w.writeAll("any");
+        }
+
+        var it = std.mem.splitScalar(u8, path[1..], '.');
+        while (it.next()) |segment| {
+            for (segment) |c| {
+                if (!std.ascii.isAlphanumeric(c) and c != '_') {
+                    return w.writeAll("any");
+                }
+            }
+        }
+
+        // any field along the path may be optional, e.g.
+        // NonNullable<NonNullable<User["address"]>["city"]>
+        it.reset();
+        while (it.next()) |_| {
+            try w.writeAll("NonNullable<");
+        }
+
+        try w.writeAll(collection_name);
+        it.reset();
+        while (it.next()) |segment| {
+            try std.fmt.format(w, "[\"{s}\"]>", .{segment});
+        }
+
+        if (mva) {
+            try w.writeAll("[number]");
+        }
+    }
+}
+
+fn printPathTuple(w: anytype, allocator: std.mem.Allocator, collection_name: []const u8, exprs: anytype) !void {
+    try w.writeByte('[');
+    for (optionalSlice(exprs), 0..) |expr, i| {
+        if (i > 0) {
+            try w.writeAll(", ");
+        }
+
+        try printPathType(w, allocator, collection_name, expr);
     }
+    try w.writeByte(']');
+}
+
+/// Prints the terms and values of each index and the fields of each unique
+/// constraint.
+fn printTypescriptIndexTypes(w: anytype, allocator: std.mem.Allocator, col: fauna.SchemaDefinition.Collection) !void {
+    const collection_name = col.name.text;
+
+    try std.fmt.format(w, "export type {s}Indexes = {{\n", .{collection_name});
+    for (col.members orelse &.{}) |member| {
+        switch (member) {
+            .index => |index| {
+                try std.fmt.format(w, "    {s}: {{ terms: ", .{index.name.text});
+                try printPathTuple(w, allocator, collection_name, index.terms);
+                try w.writeAll("; values: ");
+                try printPathTuple(w, allocator, collection_name, index.values);
+                try w.writeAll(" };\n");
+            },
+            else => {},
+        }
+    }
+
+    try std.fmt.format(w, "}};\n\n", .{});
+
+    try std.fmt.format(w, "export type {s}UniqueConstraints = [", .{collection_name});
+    var count: usize = 0;
+    for (col.members orelse &.{}) |member| {
+        switch (member) {
+            .unique_constraint => |unique| {
+                if (count > 0) {
+                    try w.writeAll(", ");
+                }
+
+                try printPathTuple(w, allocator, collection_name, unique.terms);
+                count += 1;
+            },
+            else => {},
+        }
+    }
+
+    try std.fmt.format(w, "];\n\n", .{});
 }
 
 fn toCamelCase(buf: []u8, str: []const u8) ![]const u8 {
@@ -260,7 +435,17 @@ fn toCamelCase(buf: []u8, str: []const u8) ![]const u8 {
     return buf[0..i];
 }
 
-pub fn printTypescriptDefinitions(writer: anytype, tree: fauna.SchemaTree) !void {
+pub fn printTypescriptDefinitions(allocator: std.mem.Allocator, writer: anytype, tree: fauna.SchemaTree) !void {
+    try std.fmt.format(writer,
+        \\export type Document<T> = T & {{
+        \\    id: string;
+        \\    ts: import("fauna").TimeStub;
+        \\    ttl?: import("fauna").TimeStub | null;
+        \\}};
+        \\
+        \\
+    , .{});
+
     if (tree.declarations) |declarations| {
         for (declarations) |decl| {
             if (decl != .collection) {
@@ -268,6 +453,8 @@ pub fn printTypescriptDefinitions(writer: anytype, tree: fauna.SchemaTree) !void
             }
 
             try printTypescriptType(writer, decl.collection);
+            try printTypescriptInputTypes(writer, decl.collection);
+            try printTypescriptIndexTypes(writer, allocator, decl.collection);
         }
 
         try std.fmt.format(writer, "export enum CollectionName {{\n", .{});
@@ -282,5 +469,80 @@ pub fn printTypescriptDefinitions(writer: anytype, tree: fauna.SchemaTree) !void
         }
 
         try std.fmt.format(writer, "}}\n\n", .{});
+
+        try std.fmt.format(writer, "export interface Collections {{\n", .{});
+        for (declarations) |decl| {
+            if (decl != .collection) {
+                continue;
+            }
+
+            const name = decl.collection.name.text;
+            try std.fmt.format(writer, "    {s}: {{\n", .{name});
+            try std.fmt.format(writer, "        document: Document<{s}>;\n", .{name});
+            try std.fmt.format(writer, "        create: {s}Create;\n", .{name});
+            try std.fmt.format(writer, "        update: {s}Update;\n", .{name});
+            try std.fmt.format(writer, "        indexes: {s}Indexes;\n", .{name});
+            try std.fmt.format(writer, "        unique: {s}UniqueConstraints;\n", .{name});
+            try std.fmt.format(writer, "    }};\n", .{});
+        }
+
+        try std.fmt.format(writer, "}}\n\n", .{});
+    }
+}
+
+fn printConvertedTypeAlloc(buf: *std.ArrayList(u8), fql_type: anytype) ![]const u8 {
+    buf.clearRetainingCapacity();
+
+    if (@typeInfo(@TypeOf(fql_type)) == .Optional) {
+        if (fql_type) |t| {
+            try printConvertedType(buf.writer(), t);
+        } else {
+            try buf.appendSlice("any");
+        }
+    } else {
+        try printConvertedType(buf.writer(), fql_type);
     }
+
+    return buf.items;
+}
+
+/// Prints a json array of the parameters and return types of all functions
+/// with their types converted to typescript.
+pub fn printFunctionSignatures(allocator: std.mem.Allocator, writer: anytype, tree: fauna.SchemaTree) !void {
+    var type_buf = std.ArrayList(u8).init(allocator);
+    defer type_buf.deinit();
+
+    var stream = std.json.writeStream(writer, .{});
+    try stream.beginArray();
+    if (tree.declarations) |declarations| {
+        for (declarations) |decl| {
+            if (decl != .function) {
+                continue;
+            }
+
+            const func = decl.function;
+
+            try stream.beginObject();
+            try stream.objectField("name");
+            try stream.write(func.name.text);
+
+            try stream.objectField("parameters");
+            try stream.beginArray();
+            for (func.parameters orelse &.{}) |param| {
+                try stream.beginObject();
+                try stream.objectField("name");
+                try stream.write(param.name.text);
+                try stream.objectField("type");
+                try stream.write(try printConvertedTypeAlloc(&type_buf, param.type));
+                try stream.endObject();
+            }
+            try stream.endArray();
+
+            try stream.objectField("returnType");
+            try stream.write(try printConvertedTypeAlloc(&type_buf, func.return_type));
+            try stream.endObject();
+        }
+    }
+
+    try stream.endArray();
 }
@@ -0,0 +1,363 @@
+const std = @import("std");
+const fauna = @import("fauna");
+
+/// Writes the canonical representation of an expression or type.
+fn writeCanonical(stream: anytype, allocator: std.mem.Allocator, node: anytype) !void {
+    var buf = std.ArrayList(u8).init(allocator);
+    defer buf.deinit();
+
+    try node.printCanonical(buf.writer().any(), "");
+    try stream.write(std.mem.trim(u8, buf.items, " \t\r\n"));
+}
+
+fn writeOptionalCanonical(stream: anytype, allocator: std.mem.Allocator, node: anytype) !void {
+    if (node) |child| {
+        return writeCanonical(stream, allocator, child);
+    }
+
+    try stream.write(null);
+}
+
+fn writeCanonicalList(stream: anytype, allocator: std.mem.Allocator, nodes: anytype) !void {
+    try stream.beginArray();
+    for (nodes orelse &.{}) |node| {
+        try writeCanonical(stream, allocator, node);
+    }
+    try stream.endArray();
+}
+
+/// Writes the function of a predicate, e.g. `(doc => doc.active)`.
+fn writePredicate(stream: anytype, allocator: std.mem.Allocator, predicate: ?fauna.Predicate) !void {
+    if (predicate) |p| {
+        return writeCanonical(stream, allocator, p.expr);
+    }
+
+    try stream.write(null);
+}
+
+/// Writes the value of an annotation like `@alias(name)` without quotes.
+fn writeAnnotation(stream: anytype, allocator: std.mem.Allocator, annotation: ?fauna.Annotation) !void {
+    if (annotation) |a| {
+        return switch (a.value) {
+            .identifier => |identifier| stream.write(identifier.text),
+            .string_literal => |literal| stream.write(literal.text[1 .. literal.text.len - 1]),
+            else => writeCanonical(stream, allocator, a.value),
+        };
+    }
+
+    try stream.write(null);
+}
+
+fn writePosition(stream: anytype, position: fauna.Position) !void {
+    try stream.beginObject();
+    try stream.objectField("offset");
+    try stream.write(position.offset);
+    try stream.objectField("line");
+    try stream.write(position.line);
+    try stream.objectField("column");
+    try stream.write(position.column);
+    try stream.endObject();
+}
+
+fn writeLocation(stream: anytype, location: ?fauna.SourceLocation) !void {
+    const loc = location orelse return stream.write(null);
+
+    try stream.beginObject();
+    try stream.objectField("file");
+    try stream.write(loc.filename);
+    try stream.objectField("start");
+    try writePosition(stream, loc.start);
+    try stream.objectField("end");
+    try writePosition(stream, loc.end);
+    try stream.endObject();
+}
+
+fn writeInteger(stream: anytype, literal: fauna.TextNode) !void {
+    try stream.write(try std.fmt.parseInt(u64, literal.text, 10));
+}
+
+fn writeFunction(stream: anytype, allocator: std.mem.Allocator, func: fauna.SchemaDefinition.Function) !void {
+    try stream.objectField("alias");
+    try writeAnnotation(stream, allocator, func.alias);
+    try stream.objectField("role");
+    try writeAnnotation(stream, allocator, func.role);
+
+    try stream.objectField("parameters");
+    try stream.beginArray();
+    for (func.parameters orelse &.{}) |param| {
+        try stream.beginObject();
+        try stream.objectField("name");
+        try stream.write(param.name.text);
+        try stream.objectField("type");
+        try writeOptionalCanonical(stream, allocator, param.type);
+        try stream.endObject();
+    }
+    try stream.endArray();
+
+    try stream.objectField("returnType");
+    try writeOptionalCanonical(stream, allocator, func.return_type);
+
+    // one statement per line, without the surrounding braces
+    var body = std.ArrayList(u8).init(allocator);
+    defer body.deinit();
+
+    for (func.body, 0..) |expr, i| {
+        if (i > 0) {
+            try body.append('\n');
+        }
+
+        try expr.printCanonical(body.writer().any(), "");
+    }
+
+    try stream.objectField("body");
+    try stream.write(std.mem.trim(u8, body.items, " \t\r\n"));
+}
+
+fn writeCollection(stream: anytype, allocator: std.mem.Allocator, col: fauna.SchemaDefinition.Collection) !void {
+    try stream.objectField("alias");
+    try writeAnnotation(stream, allocator, col.alias);
+
+    const members = col.members orelse &.{};
+
+    try stream.objectField("fields");
+    try stream.beginArray();
+    for (members) |member| {
+        if (member != .field) {
+            continue;
+        }
+
+        const field = member.field;
+        try stream.beginObject();
+        try stream.objectField("name");
+        try stream.write(field.name.text);
+        try stream.objectField("type");
+        try writeOptionalCanonical(stream, allocator, field.type);
+        try stream.objectField("default");
+        try writeOptionalCanonical(stream, allocator, field.default);
+        try stream.endObject();
+    }
+    try stream.endArray();
+
+    try stream.objectField("computedFields");
+    try stream.beginArray();
+    for (members) |member| {
+        if (member != .computed_field) {
+            continue;
+        }
+
+        const field = member.computed_field;
+        try stream.beginObject();
+        try stream.objectField("name");
+        try stream.write(field.name.text);
+        try stream.objectField("type");
+        try writeOptionalCanonical(stream, allocator, field.type);
+        try stream.objectField("body");
+        try writeCanonical(stream, allocator, field.value);
+        try stream.endObject();
+    }
+    try stream.endArray();
+
+    try stream.objectField("indexes");
+    try stream.beginArray();
+    for (members) |member| {
+        if (member != .index) {
+            continue;
+        }
+
+        const index = member.index;
+        try stream.beginObject();
+        try stream.objectField("name");
+        try stream.write(index.name.text);
+        try stream.objectField("terms");
+        try writeCanonicalList(stream, allocator, index.terms);
+        try stream.objectField("values");
+        try writeCanonicalList(stream, allocator, index.values);
+        try stream.endObject();
+    }
+    try stream.endArray();
+
+    try stream.objectField("constraints");
+    try stream.beginArray();
+    for (members) |member| {
+        switch (member) {
+            .unique_constraint => |unique| {
+                try stream.beginObject();
+                try stream.objectField("type");
+                try stream.write("unique");
+                try stream.objectField("terms");
+                try writeCanonicalList(stream, allocator, unique.terms);
+                try stream.endObject();
+            },
+            .check_constraint => |check| {
+                try stream.beginObject();
+                try stream.objectField("type");
+                try stream.write("check");
+                try stream.objectField("name");
+                try stream.write(check.name.text);
+                try stream.objectField("predicate");
+                try writeCanonical(stream, allocator, check.predicate);
+                try stream.endObject();
+            },
+            else => {},
+        }
+    }
+    try stream.endArray();
+
+    var history_days: ?fauna.TextNode = null;
+    var ttl_days: ?fauna.TextNode = null;
+    var document_ttls: ?bool = null;
+    for (members) |member| {
+        switch (member) {
+            .history_days => |days| history_days = days,
+            .ttl_days => |days| ttl_days = days,
+            .document_ttls => |enabled| document_ttls = enabled.value,
+            else => {},
+        }
+    }
+
+    try stream.objectField("historyDays");
+    if (history_days) |days| try writeInteger(stream, days) else try stream.write(null);
+    try stream.objectField("ttlDays");
+    if (ttl_days) |days| try writeInteger(stream, days) else try stream.write(null);
+    try stream.objectField("documentTtls");
+    try stream.write(document_ttls);
+}
+
+fn writeRole(stream: anytype, allocator: std.mem.Allocator, role: fauna.SchemaDefinition.Role) !void {
+    const members = role.members orelse &.{};
+
+    try stream.objectField("privileges");
+    try stream.beginArray();
+    for (members) |member| {
+        if (member != .privileges) {
+            continue;
+        }
+
+        const privileges = member.privileges;
+        try stream.beginObject();
+        try stream.objectField("resource");
+        try stream.write(privileges.resource.text);
+        try stream.objectField("actions");
+        try stream.beginArray();
+        for (privileges.actions orelse &.{}) |action| {
+            try stream.beginObject();
+            try stream.objectField("action");
+            try stream.write(@tagName(action.action));
+            try stream.objectField("predicate");
+            try writePredicate(stream, allocator, action.predicate);
+            try stream.endObject();
+        }
+        try stream.endArray();
+        try stream.endObject();
+    }
+    try stream.endArray();
+
+    try stream.objectField("membership");
+    try stream.beginArray();
+    for (members) |member| {
+        if (member != .membership) {
+            continue;
+        }
+
+        const membership = member.membership;
+        try stream.beginObject();
+        try stream.objectField("collection");
+        try stream.write(membership.collection.text);
+        try stream.objectField("predicate");
+        try writePredicate(stream, allocator, membership.predicate);
+        try stream.endObject();
+    }
+    try stream.endArray();
+}
+
+fn writeAccessProvider(stream: anytype, allocator: std.mem.Allocator, provider: fauna.SchemaDefinition.AccessProvider) !void {
+    const members = provider.members orelse &.{};
+
+    var issuer: ?fauna.TextNode = null;
+    var jwks_uri: ?fauna.TextNode = null;
+    for (members) |member| {
+        switch (member) {
+            .issuer => |literal| issuer = literal,
+            .jwks_uri => |literal| jwks_uri = literal,
+            else => {},
+        }
+    }
+
+    // both are string literals
+    try stream.objectField("issuer");
+    try stream.write(if (issuer) |literal| literal.text[1 .. literal.text.len - 1] else null);
+    try stream.objectField("jwksUri");
+    try stream.write(if (jwks_uri) |literal| literal.text[1 .. literal.text.len - 1] else null);
+
+    try stream.objectField("roles");
+    try stream.beginArray();
+    for (members) |member| {
+        if (member != .role) {
+            continue;
+        }
+
+        try stream.beginObject();
+        try stream.objectField("role");
+        try stream.write(member.role.name.text);
+        try stream.objectField("predicate");
+        try writePredicate(stream, allocator, member.role.predicate);
+        try stream.endObject();
+    }
+    try stream.endArray();
+}
+
+/// Prints a json object with the details of a declaration, or `null` if the
+/// tree has no such declaration. The details depend on the declaration type,
+/// and `content` always holds the canonical representation.
+pub fn printDeclaration(allocator: std.mem.Allocator, writer: anytype, tree: fauna.SchemaTree, tag: std.meta.Tag(fauna.SchemaDefinition), name: []const u8) !void {
+    const decls = tree.declarations orelse &.{};
+    const index = for (decls, 0..) |decl, i| {
+        if (std.meta.activeTag(decl) == tag and std.mem.eql(u8, decl.name(), name)) {
+            break i;
+        }
+    } else {
+        return writer.writeAll("null");
+    };
+
+    var content = std.ArrayList(u8).init(allocator);
+    defer content.deinit();
+
+    // borrow the declaration to print it on its own
+    const single: fauna.SchemaTree = .{
+        .allocator = tree.allocator,
+        .declarations = decls[index .. index + 1],
+    };
+    try single.printCanonical(content.writer().any());
+
+    var stream = std.json.writeStream(writer, .{});
+    try stream.beginObject();
+    try stream.objectField("name");
+    try stream.write(name);
+    try stream.objectField("content");
+    try stream.write(content.items);
+
+    switch (decls[index]) {
+        .function => |func| {
+            try stream.objectField("location");
+            try writeLocation(stream, func.location);
+            try writeFunction(stream, allocator, func);
+        },
+        .collection => |col| {
+            try stream.objectField("location");
+            try writeLocation(stream, col.location);
+            try writeCollection(stream, allocator, col);
+        },
+        .role => |role| {
+            try stream.objectField("location");
+            try writeLocation(stream, role.location);
+            try writeRole(stream, allocator, role);
+        },
+        .access_provider => |provider| {
+            try stream.objectField("location");
+            try writeLocation(stream, provider.location);
+            try writeAccessProvider(stream, allocator, provider);
+        },
+    }
+
+    try stream.endObject();
+}
@@ -42,11 +42,16 @@ const FunctionInfo = struct {
 /// This function "mangles" the names of all functions using the hash of the
 /// canonical representation while maintaining reference integrity.
 ///
+/// `linked` is an optional map of original func names to mangled func names
+/// from a previous link. Functions in the map are given that name instead of
+/// being hashed again, so it must only contain functions whose content and
+/// dependencies did not change since.
+///
 /// Returns a map of original func names to mangled func names.
 ///
 /// The returned hashmap owns the pointers to the keys, but not the values,
 /// which are owned by the AST.
-pub fn linkFunctions(allocator: std.mem.Allocator, tree: fauna.SchemaTree) !std.StringHashMap([]const u8) {
+pub fn linkFunctions(allocator: std.mem.Allocator, tree: fauna.SchemaTree, linked: ?std.StringHashMap([]const u8)) !std.StringHashMap([]const u8) {
     var funcs = try findFunctionDependencies(allocator, tree);
     defer {
         for (funcs.values()) |*info| {
@@ -101,10 +106,13 @@ pub fn linkFunctions(allocator: std.mem.Allocator, tree: fauna.SchemaTree) !std.
         for (linkable_funcs.items) |original_name| {
             const func = funcs.get(original_name).?;
 
-            const mangled_name = try std.fmt.allocPrint(tree.allocator, "{s}_{s}", .{
-                original_name,
-                generateFunctionsHash(&.{original_name}, funcs),
-            });
+            const mangled_name = if (previousName(linked, original_name)) |name|
+                try tree.allocator.dupe(u8, name)
+            else
+                try std.fmt.allocPrint(tree.allocator, "{s}_{s}", .{
+                    original_name,
+                    generateFunctionsHash(&.{original_name}, funcs),
+                });
 
             mangled_func_names.putAssumeCapacityNoClobber(original_name, mangled_name);
 
@@ -136,15 +144,27 @@ pub fn linkFunctions(allocator: std.mem.Allocator, tree: fauna.SchemaTree) !std.
         std.debug.assert(cycles.len != 0);
 
         for (cycles) |cycle| {
-            const hash = generateFunctionsHash(cycle, funcs);
+            const reuse_names = for (cycle) |original_name| {
+                if (previousName(linked, original_name) == null) {
+                    break false;
+                }
+            } else true;
+
+            var hash: [Sha1.digest_length * 2]u8 = undefined;
+            if (!reuse_names) {
+                hash = generateFunctionsHash(cycle, funcs);
+            }
 
             // mangled names must be set prior to updating the refs so that self
             // references are possible.
             for (cycle) |original_name| {
-                const mangled_name = try std.fmt.allocPrint(tree.allocator, "{s}_{s}", .{
-                    original_name,
-                    hash,
-                });
+                const mangled_name = if (reuse_names)
+                    try tree.allocator.dupe(u8, previousName(linked, original_name).?)
+                else
+                    try std.fmt.allocPrint(tree.allocator, "{s}_{s}", .{
+                        original_name,
+                        hash,
+                    });
 
                 mangled_func_names.putAssumeCapacityNoClobber(
                     original_name,
@@ -322,6 +342,10 @@ fn HashWriter(comptime T: type) type {
     );
 }
 
+fn previousName(linked: ?std.StringHashMap([]const u8), original_name: []const u8) ?[]const u8 {
+    return if (linked) |names| names.get(original_name) else null;
+}
+
 fn generateFunctionsHash(func_names: []const []const u8, funcs: std.StringArrayHashMap(FunctionInfo)) [Sha1.digest_length * 2]u8 {
     var hasher = Sha1.init(.{});
     for (func_names) |func_name| {
@@ -331,7 +355,141 @@ fn generateFunctionsHash(func_names: []const []const u8, funcs: std.StringArrayH
     return std.fmt.bytesToHex(hasher.finalResult(), .lower);
 }
 
-/// Returns a map of function names to maps of references.
+/// Identifier nodes that refer to a parameter or variable rather than to a
+/// declaration with the same name.
+const ShadowedIdentifiers = std.AutoHashMap(*const fauna.TextNode, void);
+
+/// Adds the identifiers of an expression that are named `name`.
+fn shadowName(allocator: std.mem.Allocator, expr: *const fauna.Expression, name: []const u8, shadowed: *ShadowedIdentifiers) !void {
+    var it = expr.walk(allocator);
+    defer it.deinit();
+
+    while (try it.next()) |child| {
+        if (child.* == .identifier and std.mem.eql(u8, child.identifier.text, name)) {
+            try shadowed.put(&child.identifier, {});
+        }
+    }
+}
+
+/// Adds the identifiers of a lambda that refer to its parameters named like
+/// one of `names`.
+fn shadowByParameters(allocator: std.mem.Allocator, lambda: *const fauna.Expression, names: anytype, shadowed: *ShadowedIdentifiers) !void {
+    switch (lambda.function.parameters) {
+        .short => |param| if (names.contains(param.text)) {
+            try shadowName(allocator, lambda, param.text, shadowed);
+        },
+        .long => |long| for (long.parameters orelse &.{}) |param| {
+            if (names.contains(param.text)) {
+                try shadowName(allocator, lambda, param.text, shadowed);
+            }
+        },
+    }
+}
+
+/// Adds the identifiers of the statements that follow a `let` of one of
+/// `names`, since those refer to the variable.
+fn shadowByVariables(allocator: std.mem.Allocator, statements: []const *fauna.Expression, names: anytype, shadowed: *ShadowedIdentifiers) !void {
+    for (statements, 0..) |stmt, i| {
+        if (stmt.* != .variable_declaration or !names.contains(stmt.variable_declaration.name.text)) {
+            continue;
+        }
+
+        for (statements[i + 1 ..]) |later| {
+            try shadowName(allocator, later, stmt.variable_declaration.name.text, shadowed);
+        }
+    }
+}
+
+/// Adds the identifiers of an expression that are in the scope of a lambda
+/// parameter or a variable named like one of `names`.
+fn findShadowed(allocator: std.mem.Allocator, expr: *const fauna.Expression, names: anytype, shadowed: *ShadowedIdentifiers) !void {
+    var it = expr.walk(allocator);
+    defer it.deinit();
+
+    while (try it.next()) |child| {
+        switch (child.*) {
+            .function => try shadowByParameters(allocator, child, names, shadowed),
+            .block => |statements| try shadowByVariables(allocator, statements, names, shadowed),
+            else => {},
+        }
+    }
+}
+
+/// Like `findShadowed`, for the body of a function declaration, where the
+/// parameters of the function are in scope as well.
+fn findShadowedInFunction(allocator: std.mem.Allocator, func: *const fauna.SchemaDefinition.Function, names: anytype, shadowed: *ShadowedIdentifiers) !void {
+    for (func.parameters orelse &.{}) |param| {
+        if (names.contains(param.name.text)) {
+            for (func.body) |stmt| {
+                try shadowName(allocator, stmt, param.name.text, shadowed);
+            }
+        }
+    }
+
+    try shadowByVariables(allocator, func.body, names, shadowed);
+    for (func.body) |stmt| {
+        try findShadowed(allocator, stmt, names, shadowed);
+    }
+}
+
+fn renameBound(allocator: std.mem.Allocator, node: *fauna.TextNode, names: std.StringArrayHashMap(void)) !void {
+    const index = names.getIndex(node.text).?;
+    allocator.free(node.text);
+    node.text = try std.fmt.allocPrint(allocator, "#{d}", .{index});
+}
+
+/// Renames the parameters and variables of a function to `#0`, `#1`, ... by
+/// the order in which the names are first bound, so that functions that only
+/// differ in those names print the same. The new names are not valid
+/// identifiers, so the function should only be printed afterwards.
+pub fn normalizeBoundNames(allocator: std.mem.Allocator, tree_allocator: std.mem.Allocator, func: *fauna.SchemaDefinition.Function) !void {
+    var arena = std.heap.ArenaAllocator.init(allocator);
+    defer arena.deinit();
+
+    const scratch = arena.allocator();
+
+    var binders = std.ArrayList(*fauna.TextNode).init(scratch);
+    for (func.parameters orelse &.{}) |*param| {
+        try binders.append(@constCast(&param.name));
+    }
+
+    var walker = func.walkBody(scratch);
+    while (try walker.next()) |expr| {
+        switch (expr.*) {
+            .variable_declaration => try binders.append(@constCast(&expr.variable_declaration.name)),
+            .function => switch (expr.function.parameters) {
+                .short => try binders.append(@constCast(&expr.function.parameters.short)),
+                .long => |long| for (long.parameters orelse &.{}) |*param| {
+                    try binders.append(@constCast(param));
+                },
+            },
+            else => {},
+        }
+    }
+
+    // the names are copied because the nodes are renamed below
+    var names = std.StringArrayHashMap(void).init(scratch);
+    for (binders.items) |binder| {
+        if (!names.contains(binder.text)) {
+            try names.put(try scratch.dupe(u8, binder.text), {});
+        }
+    }
+
+    var shadowed = ShadowedIdentifiers.init(scratch);
+    try findShadowedInFunction(scratch, func, names, &shadowed);
+
+    var it = shadowed.keyIterator();
+    while (it.next()) |identifier| {
+        try renameBound(tree_allocator, @constCast(identifier.*), names);
+    }
+
+    for (binders.items) |binder| {
+        try renameBound(tree_allocator, binder, names);
+    }
+}
+
+/// Returns a map of function names to maps of references. Parameters and
+/// variables that shadow a function are not references to it.
 ///
 /// All returned pointers, not including the hashmap and reference slice, are
 /// owned by the tree.
@@ -374,11 +532,16 @@ fn findFunctionDependencies(allocator: std.mem.Allocator, tree: fauna.SchemaTree
             func_deps.deinit();
         }
 
+        var shadowed = ShadowedIdentifiers.init(allocator);
+        defer shadowed.deinit();
+
+        try findShadowedInFunction(allocator, func.*, funcs, &shadowed);
+
         var walker = func.*.walkBody(allocator);
         defer walker.deinit();
 
         while (try walker.next()) |expr| {
-            if (expr.* != .identifier) {
+            if (expr.* != .identifier or shadowed.contains(&expr.identifier)) {
                 continue;
             }
 
@@ -421,16 +584,176 @@ fn findFunctionDependencies(allocator: std.mem.Allocator, tree: fauna.SchemaTree
     return all_funcs_deps;
 }
 
+/// The functions referenced by a declaration.
+pub const FunctionReferences = struct {
+    decl: *const fauna.SchemaDefinition,
+
+    /// Sorted names of the referenced functions, owned by the tree.
+    functions: []const []const u8,
+
+    /// Sorted names that are called like `name(...)` but are neither declared
+    /// functions nor parameters or variables, owned by the tree. These may
+    /// still be builtins or collections.
+    undeclared_calls: []const []const u8,
+
+    pub fn deinit(self: FunctionReferences, allocator: std.mem.Allocator) void {
+        allocator.free(self.functions);
+        allocator.free(self.undeclared_calls);
+    }
+};
+
+/// Adds the names that an expression binds and the names that it calls.
+fn collectNames(expr: anytype, bound: *std.StringArrayHashMap(void), called: *std.StringArrayHashMap(void)) !void {
+    switch (expr.*) {
+        .invocation => |invocation| {
+            if (invocation.function.* == .identifier) {
+                try called.put(invocation.function.identifier.text, {});
+            }
+        },
+        .variable_declaration => |variable| {
+            try bound.put(variable.name.text, {});
+        },
+        .function => |func| {
+            switch (func.parameters) {
+                .short => |param| try bound.put(param.text, {}),
+                .long => |long| for (long.parameters orelse &.{}) |param| {
+                    try bound.put(param.text, {});
+                },
+            }
+        },
+        else => {},
+    }
+}
+
+fn sortedNames(allocator: std.mem.Allocator, names: []const []const u8) ![]const []const u8 {
+    const sorted = try allocator.dupe([]const u8, names);
+    std.mem.sort([]const u8, sorted, {}, (struct {
+        fn lessThan(_: void, a: []const u8, b: []const u8) bool {
+            return std.mem.order(u8, a, b) == .lt;
+        }
+    }).lessThan);
+
+    return sorted;
+}
+
+/// Returns the functions referenced by each declaration, from the bodies of
+/// functions and from predicates elsewhere, e.g. in roles, along with the
+/// calls that the linker cannot resolve.
+///
+/// The returned references must be freed by the caller.
+pub fn findFunctionReferences(allocator: std.mem.Allocator, tree: fauna.SchemaTree) ![]FunctionReferences {
+    const decls = tree.declarations orelse return &.{};
+
+    var funcs = try findFunctionDependencies(allocator, tree);
+    defer {
+        for (funcs.values()) |*info| {
+            info.deinit(allocator);
+        }
+
+        funcs.deinit();
+    }
+
+    var result = std.ArrayList(FunctionReferences).init(allocator);
+    errdefer {
+        for (result.items) |refs| {
+            refs.deinit(allocator);
+        }
+
+        result.deinit();
+    }
+
+    for (decls, 0..) |*decl, i| {
+        var names = std.StringArrayHashMap(void).init(allocator);
+        defer names.deinit();
+
+        var bound = std.StringArrayHashMap(void).init(allocator);
+        defer bound.deinit();
+
+        var called = std.StringArrayHashMap(void).init(allocator);
+        defer called.deinit();
+
+        if (decl.* == .function) {
+            for (funcs.get(decl.function.name.text).?.dependencies.keys()) |name| {
+                try names.put(name, {});
+            }
+
+            for (decl.function.parameters orelse &.{}) |param| {
+                try bound.put(param.name.text, {});
+            }
+
+            var walker = decl.function.walkBody(allocator);
+            defer walker.deinit();
+
+            while (try walker.next()) |expr| {
+                try collectNames(expr, &bound, &called);
+            }
+        } else {
+            // borrow the declaration to walk only its predicates
+            const single: fauna.SchemaTree = .{
+                .allocator = tree.allocator,
+                .declarations = decls[i .. i + 1],
+            };
+
+            var maybe_it = single.walkPredicates();
+            if (maybe_it) |*pred_it| {
+                while (pred_it.next()) |pred| {
+                    var shadowed = ShadowedIdentifiers.init(allocator);
+                    defer shadowed.deinit();
+
+                    try findShadowed(allocator, pred, funcs, &shadowed);
+
+                    var it = pred.walk(allocator);
+                    defer it.deinit();
+
+                    while (try it.next()) |expr| {
+                        if (expr.* == .identifier and !shadowed.contains(&expr.identifier)) {
+                            if (funcs.getKey(expr.identifier.text)) |name| {
+                                try names.put(name, {});
+                            }
+                        }
+
+                        try collectNames(expr, &bound, &called);
+                    }
+                }
+            }
+        }
+
+        var undeclared = std.ArrayList([]const u8).init(allocator);
+        defer undeclared.deinit();
+
+        for (called.keys()) |name| {
+            if (!funcs.contains(name) and !bound.contains(name)) {
+                try undeclared.append(name);
+            }
+        }
+
+        const functions = try sortedNames(allocator, names.keys());
+        errdefer allocator.free(functions);
+
+        const undeclared_calls = try sortedNames(allocator, undeclared.items);
+        errdefer allocator.free(undeclared_calls);
+
+        try result.append(.{ .decl = decl, .functions = functions, .undeclared_calls = undeclared_calls });
+    }
+
+    return result.toOwnedSlice();
+}
+
 /// Expects a map of original func names to mangled func names. That is the same as the return value of `linkFunctions`.
 pub fn updatePredicateFunctionReferences(allocator: std.mem.Allocator, tree: fauna.SchemaTree, mangled_func_names: std.StringHashMap([]const u8)) !void {
     var maybe_it = tree.walkPredicates();
     if (maybe_it) |*pred_it| {
         while (pred_it.next()) |pred| {
+            var shadowed = ShadowedIdentifiers.init(allocator);
+            defer shadowed.deinit();
+
+            try findShadowed(allocator, pred, mangled_func_names, &shadowed);
+
             var it = pred.walk(allocator);
             defer it.deinit();
 
             while (try it.next()) |expr| {
-                if (expr.* != .identifier) {
+                if (expr.* != .identifier or shadowed.contains(&expr.identifier)) {
                     continue;
                 }
 
@@ -463,3 +786,164 @@ pub fn updatePredicateFunctionReferences(allocator: std.mem.Allocator, tree: fau
         }
     }
 }
+
+/// Renames identifiers in all function bodies, except for those that refer to
+/// a parameter or variable with the same name.
+///
+/// Expects a map of current names to new names.
+fn renameBodyReferences(allocator: std.mem.Allocator, tree: fauna.SchemaTree, new_names: std.StringHashMap([]const u8)) !void {
+    if (tree.declarations) |decls| {
+        for (decls) |*decl| {
+            if (decl.* != .function) {
+                continue;
+            }
+
+            var shadowed = ShadowedIdentifiers.init(allocator);
+            defer shadowed.deinit();
+
+            try findShadowedInFunction(allocator, &decl.function, new_names, &shadowed);
+
+            var walker = decl.function.walkBody(allocator);
+            defer walker.deinit();
+
+            while (try walker.next()) |expr| {
+                if (expr.* != .identifier or shadowed.contains(&expr.identifier)) {
+                    continue;
+                }
+
+                if (new_names.get(expr.identifier.text)) |new_name| {
+                    tree.allocator.free(expr.identifier.text);
+                    @constCast(expr).identifier.text = try tree.allocator.dupe(u8, new_name);
+                }
+            }
+        }
+    }
+}
+
+/// Renames functions along with all references to them from function bodies,
+/// role predicates and role privileges.
+///
+/// Expects a map of current func names to new func names.
+pub fn renameFunctions(allocator: std.mem.Allocator, tree: fauna.SchemaTree, new_func_names: std.StringHashMap([]const u8)) !void {
+    try renameBodyReferences(allocator, tree, new_func_names);
+
+    if (tree.declarations) |decls| {
+        for (decls) |*decl| {
+            if (decl.* != .function) {
+                continue;
+            }
+
+            if (new_func_names.get(decl.function.name.text)) |new_name| {
+                tree.allocator.free(decl.function.name.text);
+                decl.function.name.text = try tree.allocator.dupe(u8, new_name);
+            }
+        }
+    }
+
+    try updatePredicateFunctionReferences(allocator, tree, new_func_names);
+}
+
+/// Renames a collection along with all references to it from function bodies,
+/// role predicates, role privileges and role membership.
+pub fn renameCollection(allocator: std.mem.Allocator, tree: fauna.SchemaTree, name: []const u8, new_name: []const u8) !void {
+    var new_names = std.StringHashMap([]const u8).init(allocator);
+    defer new_names.deinit();
+
+    try new_names.put(name, new_name);
+
+    try renameBodyReferences(allocator, tree, new_names);
+    try updatePredicateFunctionReferences(allocator, tree, new_names);
+
+    if (tree.declarations) |decls| {
+        for (decls) |decl| {
+            if (decl != .role) {
+                continue;
+            }
+
+            for (decl.role.members orelse &.{}) |*member| {
+                if (member.* == .membership and std.mem.eql(u8, member.membership.collection.text, name)) {
+                    tree.allocator.free(member.membership.collection.text);
+                    @constCast(member).membership.collection.text = try tree.allocator.dupe(u8, new_name);
+                }
+            }
+        }
+    }
+
+    try renameDeclaration(tree, .collection, name, new_name);
+}
+
+fn renameAnnotation(allocator: std.mem.Allocator, annotation: *fauna.Annotation, name: []const u8, new_name: []const u8) !void {
+    switch (annotation.value) {
+        .identifier => |*identifier| if (std.mem.eql(u8, identifier.text, name)) {
+            allocator.free(identifier.text);
+            identifier.text = try allocator.dupe(u8, new_name);
+        },
+        .string_literal => |*literal| if (std.mem.eql(u8, literal.text[1 .. literal.text.len - 1], name)) {
+            allocator.free(literal.text);
+            literal.text = try std.fmt.allocPrint(allocator, "\"{s}\"", .{new_name});
+        },
+        else => {},
+    }
+}
+
+/// Renames a role along with the `@role` annotations of functions and the
+/// roles of access providers.
+pub fn renameRole(tree: fauna.SchemaTree, name: []const u8, new_name: []const u8) !void {
+    for (tree.declarations orelse &.{}) |*decl| {
+        switch (decl.*) {
+            .function => |*func| if (func.role) |*role| {
+                try renameAnnotation(tree.allocator, role, name, new_name);
+            },
+            .access_provider => |provider| for (provider.members orelse &.{}) |*member| {
+                if (member.* == .role and std.mem.eql(u8, member.role.name.text, name)) {
+                    tree.allocator.free(member.role.name.text);
+                    @constCast(member).role.name.text = try tree.allocator.dupe(u8, new_name);
+                }
+            },
+            else => {},
+        }
+    }
+
+    try renameDeclaration(tree, .role, name, new_name);
+}
+
+/// Renames a declaration without updating any references to it.
+pub fn renameDeclaration(tree: fauna.SchemaTree, tag: std.meta.Tag(fauna.SchemaDefinition), name: []const u8, new_name: []const u8) !void {
+    for (tree.declarations orelse &.{}) |*decl| {
+        if (std.meta.activeTag(decl.*) != tag or !std.mem.eql(u8, decl.name(), name)) {
+            continue;
+        }
+
+        switch (decl.*) {
+            inline else => |*payload| {
+                tree.allocator.free(payload.name.text);
+                payload.name.text = try tree.allocator.dupe(u8, new_name);
+            },
+        }
+    }
+}
+
+/// Returns groups of functions that directly or indirectly depend on each
+/// other.
+///
+/// The function names are owned by the tree, but the returned slices must be
+/// freed by the caller.
+pub fn findFunctionCycles(allocator: std.mem.Allocator, tree: fauna.SchemaTree) ![][][]const u8 {
+    if (tree.declarations == null) {
+        return &.{};
+    }
+
+    var funcs = try findFunctionDependencies(allocator, tree);
+    defer {
+        for (funcs.values()) |*info| {
+            info.deinit(allocator);
+        }
+
+        funcs.deinit();
+    }
+
+    var participating_funcs = try std.StringArrayHashMapUnmanaged(void).init(allocator, funcs.keys(), &.{});
+    defer participating_funcs.deinit(allocator);
+
+    return findCycles(allocator, participating_funcs, funcs);
+}
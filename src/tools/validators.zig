@@ -0,0 +1,424 @@
+const std = @import("std");
+const fauna = @import("fauna");
+
+const dts = @import("dts.zig");
+
+pub const Target = enum {
+    zod,
+    json_schema,
+};
+
+const Primitive = struct {
+    name: []const u8,
+    zod: []const u8,
+    json_schema: []const u8,
+};
+
+const primitives = [_]Primitive{
+    .{ .name = "Null", .zod = "z.null()", .json_schema = "{\"type\":\"null\"}" },
+    .{ .name = "String", .zod = "z.string()", .json_schema = "{\"type\":\"string\"}" },
+    .{ .name = "ID", .zod = "z.string()", .json_schema = "{\"type\":\"string\"}" },
+    .{ .name = "Number", .zod = "z.number()", .json_schema = "{\"type\":\"number\"}" },
+    .{ .name = "Double", .zod = "z.number()", .json_schema = "{\"type\":\"number\"}" },
+    .{ .name = "Float", .zod = "z.number()", .json_schema = "{\"type\":\"number\"}" },
+    .{ .name = "Int", .zod = "z.number().int()", .json_schema = "{\"type\":\"integer\"}" },
+    .{ .name = "Long", .zod = "z.number().int()", .json_schema = "{\"type\":\"integer\"}" },
+    .{ .name = "Boolean", .zod = "z.boolean()", .json_schema = "{\"type\":\"boolean\"}" },
+    .{ .name = "Any", .zod = "z.any()", .json_schema = "{}" },
+    .{ .name = "Time", .zod = "z.instanceof(TimeStub)", .json_schema = "{\"type\":\"string\",\"format\":\"date-time\"}" },
+    .{ .name = "Date", .zod = "z.instanceof(DateStub)", .json_schema = "{\"type\":\"string\",\"format\":\"date\"}" },
+    .{ .name = "Bytes", .zod = "z.instanceof(Uint8Array)", .json_schema = "{\"type\":\"string\",\"contentEncoding\":\"base64\"}" },
+};
+
+fn findPrimitive(name: []const u8) ?Primitive {
+    for (primitives) |primitive| {
+        if (std.mem.eql(u8, primitive.name, name)) {
+            return primitive;
+        }
+    }
+
+    return null;
+}
+
+/// Removes the quotes from a string literal or string object key.
+fn unquote(text: []const u8) []const u8 {
+    if (text.len >= 2 and (text[0] == '"' or text[0] == '\'') and text[text.len - 1] == text[0]) {
+        return text[1 .. text.len - 1];
+    }
+
+    return text;
+}
+
+const Converter = struct {
+    target: Target,
+
+    /// Names of all collections in the schema, used to resolve references.
+    collections: std.StringHashMap(void),
+
+    fn printNamed(self: Converter, writer: anytype, name: []const u8) @TypeOf(writer).Error!void {
+        if (findPrimitive(name)) |primitive| {
+            return writer.writeAll(switch (self.target) {
+                .zod => primitive.zod,
+                .json_schema => primitive.json_schema,
+            });
+        }
+
+        if (self.collections.contains(name)) {
+            return switch (self.target) {
+                .zod => std.fmt.format(writer, "z.lazy(() => {s})", .{name}),
+                .json_schema => std.fmt.format(writer, "{{\"$ref\":\"#/$defs/{s}\"}}", .{name}),
+            };
+        }
+
+        return writer.writeAll(switch (self.target) {
+            .zod => "z.any()",
+            .json_schema => "{}",
+        });
+    }
+
+    fn printObject(self: Converter, writer: anytype, fields: anytype) @TypeOf(writer).Error!void {
+        var wildcard: ?fauna.FQLType = null;
+        for (fields) |field| {
+            if (field.key == .wildcard) {
+                wildcard = field.type;
+            }
+        }
+
+        switch (self.target) {
+            .zod => {
+                if (wildcard != null and fields.len == 1) {
+                    try writer.writeAll("z.record(z.string(), ");
+                    try self.printType(writer, wildcard.?);
+                    return writer.writeByte(')');
+                }
+
+                try writer.writeAll("z.object({ ");
+                for (fields) |field| {
+                    switch (field.key) {
+                        .wildcard => continue,
+                        inline .string, .identifier => |s| {
+                            try std.fmt.format(writer, "{s}: ", .{s.text});
+                        },
+                    }
+
+                    try self.printType(writer, field.type);
+                    if (dts.isOptionalType(field.type) and field.type != .optional) {
+                        try writer.writeAll(".optional()");
+                    }
+
+                    try writer.writeAll(", ");
+                }
+                try writer.writeAll("})");
+
+                if (wildcard) |wildcard_type| {
+                    try writer.writeAll(".catchall(");
+                    try self.printType(writer, wildcard_type);
+                    try writer.writeByte(')');
+                }
+            },
+            .json_schema => {
+                try writer.writeAll("{\"type\":\"object\",\"properties\":{");
+                var i: usize = 0;
+                for (fields) |field| {
+                    switch (field.key) {
+                        .wildcard => continue,
+                        inline .string, .identifier => |s| {
+                            if (i > 0) {
+                                try writer.writeByte(',');
+                            }
+
+                            try std.json.encodeJsonString(unquote(s.text), .{}, writer);
+                            try writer.writeByte(':');
+                            try self.printType(writer, field.type);
+                            i += 1;
+                        },
+                    }
+                }
+                try writer.writeAll("},\"required\":[");
+                i = 0;
+                for (fields) |field| {
+                    switch (field.key) {
+                        .wildcard => continue,
+                        inline .string, .identifier => |s| {
+                            if (dts.isOptionalType(field.type)) {
+                                continue;
+                            }
+
+                            if (i > 0) {
+                                try writer.writeByte(',');
+                            }
+
+                            try std.json.encodeJsonString(unquote(s.text), .{}, writer);
+                            i += 1;
+                        },
+                    }
+                }
+                try writer.writeAll("],\"additionalProperties\":");
+                if (wildcard) |wildcard_type| {
+                    try self.printType(writer, wildcard_type);
+                } else {
+                    try writer.writeAll("false");
+                }
+                try writer.writeByte('}');
+            },
+        }
+    }
+
+    fn printList(self: Converter, writer: anytype, types: []const fauna.FQLType) @TypeOf(writer).Error!void {
+        try writer.writeByte('[');
+        for (types, 0..) |t, i| {
+            if (i > 0) {
+                try writer.writeAll(", ");
+            }
+
+            try self.printType(writer, t);
+        }
+        try writer.writeByte(']');
+    }
+
+    fn printType(self: Converter, writer: anytype, fql_type: fauna.FQLType) @TypeOf(writer).Error!void {
+        switch (fql_type) {
+            .named => |identifier| {
+                try self.printNamed(writer, identifier.text);
+            },
+            .object => |obj| {
+                try self.printObject(writer, obj.fields orelse &.{});
+            },
+            .@"union" => |u| {
+                try writer.writeAll(switch (self.target) {
+                    .zod => "z.union([",
+                    .json_schema => "{\"anyOf\":[",
+                });
+                try self.printType(writer, u.lhs.*);
+                try writer.writeAll(", ");
+                try self.printType(writer, u.rhs.*);
+                try writer.writeAll(switch (self.target) {
+                    .zod => "])",
+                    .json_schema => "]}",
+                });
+            },
+            .optional => |optional| {
+                switch (self.target) {
+                    .zod => {
+                        try self.printType(writer, optional.type.*);
+                        try writer.writeAll(".nullish()");
+                    },
+                    .json_schema => {
+                        try writer.writeAll("{\"anyOf\":[");
+                        try self.printType(writer, optional.type.*);
+                        try writer.writeAll(",{\"type\":\"null\"}]}");
+                    },
+                }
+            },
+            .template => |template| {
+                const params = template.parameters orelse &.{};
+                if (std.mem.eql(u8, template.name.text, "Ref") and params.len == 1) {
+                    // a document reference or its id, not the document itself
+                    try writer.writeAll(switch (self.target) {
+                        .zod => "z.union([z.object({ id: z.string(), coll: z.any() }), z.string()])",
+                        .json_schema => "{\"anyOf\":[{\"type\":\"object\",\"properties\":{\"id\":{\"type\":\"string\"},\"coll\":{}},\"required\":[\"id\",\"coll\"]},{\"type\":\"string\"}]}",
+                    });
+                } else if (std.mem.eql(u8, template.name.text, "Array") and params.len == 1) {
+                    switch (self.target) {
+                        .zod => {
+                            try writer.writeAll("z.array(");
+                            try self.printType(writer, params[0]);
+                            try writer.writeByte(')');
+                        },
+                        .json_schema => {
+                            try writer.writeAll("{\"type\":\"array\",\"items\":");
+                            try self.printType(writer, params[0]);
+                            try writer.writeByte('}');
+                        },
+                    }
+                } else {
+                    try self.printNamed(writer, "Any");
+                }
+            },
+            .tuple => |tuple| {
+                switch (self.target) {
+                    .zod => {
+                        try writer.writeAll("z.tuple(");
+                        try self.printList(writer, tuple.types orelse &.{});
+                        try writer.writeByte(')');
+                    },
+                    .json_schema => {
+                        try writer.writeAll("{\"type\":\"array\",\"prefixItems\":");
+                        try self.printList(writer, tuple.types orelse &.{});
+                        try writer.writeAll(",\"items\":false}");
+                    },
+                }
+            },
+            .string_literal => |literal| {
+                switch (self.target) {
+                    .zod => try std.fmt.format(writer, "z.literal({s})", .{literal.text}),
+                    .json_schema => {
+                        try writer.writeAll("{\"const\":");
+                        try std.json.encodeJsonString(unquote(literal.text), .{}, writer);
+                        try writer.writeByte('}');
+                    },
+                }
+            },
+            .number_literal => |literal| {
+                switch (self.target) {
+                    .zod => try std.fmt.format(writer, "z.literal({s})", .{literal.text}),
+                    .json_schema => try std.fmt.format(writer, "{{\"const\":{s}}}", .{literal.text}),
+                }
+            },
+            .function => {
+                try writer.writeAll(switch (self.target) {
+                    .zod => "z.function()",
+                    .json_schema => "{}",
+                });
+            },
+            .isolated => |isolated| {
+                try self.printType(writer, isolated.type.*);
+            },
+        }
+    }
+
+    fn printField(self: Converter, writer: anytype, field: anytype) !void {
+        if (@typeInfo(@TypeOf(field.type)) == .Optional) {
+            if (field.type) |field_type| {
+                try self.printType(writer, field_type);
+            } else {
+                try self.printNamed(writer, "Any");
+            }
+        } else {
+            try self.printType(writer, field.type);
+        }
+    }
+
+    fn isOptionalField(field: anytype) bool {
+        if (dts.hasDefault(field)) {
+            return true;
+        }
+
+        if (@typeInfo(@TypeOf(field.type)) == .Optional) {
+            return if (field.type) |field_type| dts.isOptionalType(field_type) else true;
+        }
+
+        return dts.isOptionalType(field.type);
+    }
+
+    /// Whether the zod validator of the field type already ends with
+    /// `.nullish()`, which also accepts undefined.
+    fn isNullishField(field: anytype) bool {
+        if (@typeInfo(@TypeOf(field.type)) == .Optional) {
+            return if (field.type) |field_type| field_type == .optional else false;
+        }
+
+        return field.type == .optional;
+    }
+
+    fn printCollection(self: Converter, writer: anytype, col: fauna.SchemaDefinition.Collection) !void {
+        switch (self.target) {
+            .zod => {
+                try std.fmt.format(writer, "export const {s} = z.object({{\n", .{dts.nodeText(col.name)});
+                for (col.members orelse &.{}) |member| {
+                    if (member != .field) {
+                        continue;
+                    }
+
+                    try std.fmt.format(writer, "    {s}: ", .{dts.nodeText(member.field.name)});
+                    try self.printField(writer, member.field);
+                    if (isOptionalField(member.field) and !isNullishField(member.field)) {
+                        try writer.writeAll(".optional()");
+                    }
+                    try writer.writeAll(",\n");
+                }
+                try writer.writeAll("});\n\n");
+            },
+            .json_schema => {
+                try writer.writeAll("{\"type\":\"object\",\"properties\":{");
+                var i: usize = 0;
+                for (col.members orelse &.{}) |member| {
+                    if (member != .field) {
+                        continue;
+                    }
+
+                    if (i > 0) {
+                        try writer.writeByte(',');
+                    }
+
+                    try std.json.encodeJsonString(dts.nodeText(member.field.name), .{}, writer);
+                    try writer.writeByte(':');
+                    try self.printField(writer, member.field);
+                    i += 1;
+                }
+                try writer.writeAll("},\"required\":[");
+                i = 0;
+                for (col.members orelse &.{}) |member| {
+                    if (member != .field or isOptionalField(member.field)) {
+                        continue;
+                    }
+
+                    if (i > 0) {
+                        try writer.writeByte(',');
+                    }
+
+                    try std.json.encodeJsonString(dts.nodeText(member.field.name), .{}, writer);
+                    i += 1;
+                }
+                try writer.writeAll("]}");
+            },
+        }
+    }
+};
+
+/// Prints validators for the fields of every collection. Computed fields are
+/// excluded because they cannot be written.
+///
+/// The zod target prints a typescript module, while the json schema target
+/// prints a single json document with a definition for each collection.
+pub fn printValidators(allocator: std.mem.Allocator, writer: anytype, tree: fauna.SchemaTree, target: Target) !void {
+    const declarations = tree.declarations orelse &.{};
+
+    var converter = Converter{
+        .target = target,
+        .collections = std.StringHashMap(void).init(allocator),
+    };
+    defer converter.collections.deinit();
+
+    for (declarations) |decl| {
+        if (decl == .collection) {
+            try converter.collections.put(decl.name(), {});
+        }
+    }
+
+    switch (target) {
+        .zod => {
+            try writer.writeAll(
+                \\import { z } from "zod";
+                \\import { DateStub, TimeStub } from "fauna";
+                \\
+                \\
+            );
+
+            for (declarations) |decl| {
+                if (decl == .collection) {
+                    try converter.printCollection(writer, decl.collection);
+                }
+            }
+        },
+        .json_schema => {
+            try writer.writeAll("{\"$schema\":\"https://json-schema.org/draft/2020-12/schema\",\"$defs\":{");
+            var i: usize = 0;
+            for (declarations) |decl| {
+                if (decl != .collection) {
+                    continue;
+                }
+
+                if (i > 0) {
+                    try writer.writeByte(',');
+                }
+
+                try std.json.encodeJsonString(decl.name(), .{}, writer);
+                try writer.writeByte(':');
+                try converter.printCollection(writer, decl.collection);
+                i += 1;
+            }
+            try writer.writeAll("}}");
+        },
+    }
+}
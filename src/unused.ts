@@ -0,0 +1,174 @@
+import * as fs from "node:fs/promises";
+import * as path from "node:path";
+import { findSchemaFiles } from "./lib";
+import { DeclarationType, RoleMemberType, type Schema } from "./schema";
+
+export interface FindUnusedOptions {
+  /**
+   * Functions that are called from outside of the schema, e.g. by clients.
+   */
+  entryPoints?: Iterable<string>;
+}
+
+export interface UnusedDeclarations {
+  /**
+   * Functions that are not referenced by an entry point, role, collection or
+   * access provider, directly or through other functions.
+   */
+  functions: string[];
+
+  /**
+   * Roles without membership that no access provider assigns and no function
+   * runs as. Keys and tokens may still use them.
+   */
+  roles: string[];
+}
+
+/**
+ * Finds functions and roles that nothing in the schema uses, based on the
+ * dependency graph.
+ *
+ * Collections, roles and access providers are assumed to be used, so the
+ * functions they refer to are too.
+ */
+export function findUnused(
+  schema: Schema,
+  options?: FindUnusedOptions,
+): UnusedDeclarations {
+  const graph = schema.getDependencyGraph();
+
+  const used = new Set<string>();
+  const queue: string[] = [];
+  const use = (id: string) => {
+    if (!used.has(id)) {
+      used.add(id);
+      queue.push(id);
+    }
+  };
+
+  for (const node of graph.nodes) {
+    if (node.type !== DeclarationType.FUNCTION) {
+      use(node.id);
+    }
+  }
+
+  for (const name of options?.entryPoints ?? []) {
+    use(`${DeclarationType.FUNCTION}:${name}`);
+  }
+
+  while (queue.length) {
+    const from = queue.pop();
+    for (const edge of graph.edges) {
+      if (edge.from === from) {
+        use(edge.to);
+      }
+    }
+  }
+
+  const declarations = schema.declarations;
+  const assignedRoles = new Set<string>();
+  for (const { type, name } of declarations) {
+    if (type === DeclarationType.ACCESS_PROVIDER) {
+      for (const { role } of schema.getAccessProvider(name).roles) {
+        assignedRoles.add(role);
+      }
+    } else if (type === DeclarationType.FUNCTION) {
+      const role = schema.getFunction(name).role;
+      if (role) {
+        assignedRoles.add(role);
+      }
+    }
+  }
+
+  return {
+    functions: graph.nodes
+      .filter(
+        (node) => node.type === DeclarationType.FUNCTION && !used.has(node.id),
+      )
+      .map((node) => node.name)
+      .toSorted(),
+    roles: Array.from(
+      new Set(
+        declarations.flatMap((decl) =>
+          decl.type === DeclarationType.ROLE &&
+          !decl.resources.some(
+            (resource) => resource.type === RoleMemberType.MEMBERSHIP,
+          ) &&
+          !assignedRoles.has(decl.name)
+            ? [decl.name]
+            : [],
+        ),
+      ),
+    ).toSorted(),
+  };
+}
+
+function withoutExtension(filename: string): string {
+  return filename.replace(/\.[cm]?[jt]sx?$/, "");
+}
+
+/**
+ * Returns the functions that typescript sources import from the function
+ * names module written with `fnspath`, i.e. `link --names-out`. Only
+ * relative imports are resolved.
+ *
+ * @param sourcepaths - Paths to the sources, globs are supported.
+ * @param namesModule - Path to the function names module.
+ */
+export async function findImportedFunctions(
+  sourcepaths: string | string[],
+  namesModule: string,
+): Promise<Set<string>> {
+  const target = withoutExtension(path.resolve(namesModule));
+  const names = new Set<string>();
+  for (const file of await findSchemaFiles(sourcepaths)) {
+    const code = await fs.readFile(file, "utf8");
+    for (const match of code.matchAll(
+      /\b(?:import|export)\s+(?:type\s+)?([^;]*?)\s*from\s*["']([^"']+)["']/g,
+    )) {
+      const [, clause, specifier] = match;
+      if (
+        !specifier.startsWith(".") ||
+        withoutExtension(path.resolve(path.dirname(file), specifier)) !== target
+      ) {
+        continue;
+      }
+
+      // `export * from` re-exports every function
+      if (clause === "*") {
+        const content = await fs.readFile(namesModule, "utf8");
+        for (const exported of content.matchAll(
+          /^export\s+(?:const|function)\s+([\w$]+)/gm,
+        )) {
+          names.add(exported[1]);
+        }
+        continue;
+      }
+
+      // `import * as fns from`, used like `fns.name`
+      const namespace = /\*\s*as\s+([\w$]+)/.exec(clause);
+      if (namespace) {
+        const pattern = new RegExp(
+          `(?<![\\w$.])${namespace[1].replaceAll("$", "\\$")}\\s*\\.\\s*([\\w$]+)`,
+          "g",
+        );
+        for (const usage of code.matchAll(pattern)) {
+          names.add(usage[1]);
+        }
+      }
+
+      // `import { a, b as c } from`
+      for (const item of /\{([^}]*)\}/.exec(clause)?.[1].split(",") ?? []) {
+        const name = item
+          .replace(/^\s*type\s+/, "")
+          .split(/\s+as\s+/)[0]
+          .trim();
+        if (name) {
+          names.add(name);
+        }
+      }
+    }
+  }
+
+  return names;
+}
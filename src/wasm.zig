@@ -3,21 +3,113 @@ const fauna = @import("fauna");
 const zbind = @import("zbind");
 
 const dts = @import("tools/dts.zig");
+const inspect = @import("tools/inspect.zig");
 const linker = @import("tools/linker.zig");
 const merger = @import("tools/merger.zig");
+const validators = @import("tools/validators.zig");
+
+/// Json encoded details of the most recent error, owned by the wasm allocator.
+var last_error: ?[]const u8 = null;
+
+fn writeErrorJson(writer: anytype, err: anyerror, filename: ?[]const u8, diagnostics: ?fauna.Diagnostics) !void {
+    var stream = std.json.writeStream(writer, .{});
+    try stream.beginObject();
+    try stream.objectField("code");
+    try stream.write(@errorName(err));
+    if (filename) |f| {
+        try stream.objectField("file");
+        try stream.write(f);
+    }
+    if (diagnostics) |d| {
+        if (d.message) |message| {
+            try stream.objectField("message");
+            try stream.write(message);
+        }
+        if (d.location) |location| {
+            try stream.objectField("start");
+            try stream.write(location.start.offset);
+            try stream.objectField("end");
+            try stream.write(location.end.offset);
+        }
+    }
+    try stream.endObject();
+}
+
+/// Saves the error details to be retrieved with `takeLastError`.
+fn recordError(err: anyerror, filename: ?[]const u8, diagnostics: ?fauna.Diagnostics) void {
+    if (last_error) |json| {
+        std.heap.wasm_allocator.free(json);
+        last_error = null;
+    }
+
+    var buf = std.ArrayList(u8).init(std.heap.wasm_allocator);
+    writeErrorJson(buf.writer(), err, filename, diagnostics) catch {
+        buf.deinit();
+        return;
+    };
+
+    last_error = buf.toOwnedSlice() catch {
+        buf.deinit();
+        return;
+    };
+}
+
+fn reportError(err: anyerror) void {
+    recordError(err, null, null);
+}
+
+/// Returns the json encoded details of the most recent error and clears it.
+/// The returned bytes must be freed with `freeBytes`.
+pub fn takeLastError() ?[]const u8 {
+    defer last_error = null;
+    return last_error;
+}
 
 fn generateTypescriptDefinitionsInternal(tree: fauna.SchemaTree) ![]const u8 {
     var buf = std.ArrayList(u8).init(std.heap.wasm_allocator);
     defer buf.deinit();
 
-    try dts.printTypescriptDefinitions(buf.writer().any(), tree);
+    try dts.printTypescriptDefinitions(std.heap.wasm_allocator, buf.writer().any(), tree);
 
     return try buf.toOwnedSlice();
 }
 
 pub fn generateTypescriptDefinitions(tree: fauna.SchemaTree) ?[]const u8 {
     return generateTypescriptDefinitionsInternal(tree) catch |err| {
-        std.debug.print("Error: {any}\n", .{err});
+        reportError(err);
+        return null;
+    };
+}
+
+fn getFunctionSignaturesInternal(tree: fauna.SchemaTree) ![]const u8 {
+    var buf = std.ArrayList(u8).init(std.heap.wasm_allocator);
+    defer buf.deinit();
+
+    try dts.printFunctionSignatures(std.heap.wasm_allocator, buf.writer(), tree);
+
+    return try buf.toOwnedSlice();
+}
+
+pub fn getFunctionSignatures(tree: fauna.SchemaTree) ?[]const u8 {
+    return getFunctionSignaturesInternal(tree) catch |err| {
+        reportError(err);
+        return null;
+    };
+}
+
+fn generateValidatorsInternal(tree: fauna.SchemaTree, target: []const u8) ![]const u8 {
+    var buf = std.ArrayList(u8).init(std.heap.wasm_allocator);
+    defer buf.deinit();
+
+    const validators_target = std.meta.stringToEnum(validators.Target, target) orelse return error.InvalidValidatorTarget;
+    try validators.printValidators(std.heap.wasm_allocator, buf.writer(), tree, validators_target);
+
+    return try buf.toOwnedSlice();
+}
+
+pub fn generateValidators(tree: fauna.SchemaTree, target: []const u8) ?[]const u8 {
+    return generateValidatorsInternal(tree, target) catch |err| {
+        reportError(err);
         return null;
     };
 }
@@ -104,13 +196,36 @@ fn printCanonicalTreeInternal(allocator: std.mem.Allocator, tree: fauna.SchemaTr
 
 pub fn printCanonicalTree(tree: fauna.SchemaTree, source_map_file: ?[]const u8, mangled_names_map_json: ?[]const u8, sources_json: ?[]const u8) ?[]const u8 {
     return printCanonicalTreeInternal(std.heap.wasm_allocator, tree, source_map_file, mangled_names_map_json, sources_json) catch |err| {
-        std.debug.print("Error: {any}\n", .{err});
+        reportError(err);
         return null;
     };
 }
 
-fn linkFunctionsInternal(tree: fauna.SchemaTree) ![]const u8 {
-    var mangled_func_names = try linker.linkFunctions(std.heap.wasm_allocator, tree);
+fn linkFunctionsInternal(tree: fauna.SchemaTree, linked_json: ?[]const u8) ![]const u8 {
+    var parsed_linked: ?std.json.Parsed(std.json.Value) = null;
+    defer if (parsed_linked) |*parsed| parsed.deinit();
+
+    var linked: ?std.StringHashMap([]const u8) = null;
+    defer if (linked) |*names| names.deinit();
+
+    if (linked_json) |json| {
+        parsed_linked = try std.json.parseFromSlice(std.json.Value, std.heap.wasm_allocator, json, .{});
+        if (parsed_linked.?.value != .object) {
+            return error.InvalidNameMap;
+        }
+
+        linked = std.StringHashMap([]const u8).init(std.heap.wasm_allocator);
+        for (parsed_linked.?.value.object.keys(), parsed_linked.?.value.object.values()) |key, value| {
+            if (value != .string) {
+                std.log.warn("json name map field \"{s}\" is expected to be a string, but found a {s}...", .{ key, @tagName(value) });
+                continue;
+            }
+
+            try linked.?.put(key, value.string);
+        }
+    }
+
+    var mangled_func_names = try linker.linkFunctions(std.heap.wasm_allocator, tree, linked);
     defer {
         var original_name_iterator = mangled_func_names.keyIterator();
         while (original_name_iterator.next()) |original_name| {
@@ -141,13 +256,76 @@ fn linkFunctionsInternal(tree: fauna.SchemaTree) ![]const u8 {
     return out.toOwnedSlice();
 }
 
-pub fn linkFunctions(tree: fauna.SchemaTree) ?[]const u8 {
-    return linkFunctionsInternal(tree) catch |err| {
-        std.debug.print("Error: {any}\n", .{err});
+/// Expects an optional json object of original func names to mangled func names
+/// from a previous link, which are reused instead of hashing those functions.
+pub fn linkFunctions(tree: fauna.SchemaTree, linked_json: ?[]const u8) ?[]const u8 {
+    return linkFunctionsInternal(tree, linked_json) catch |err| {
+        reportError(err);
         return null;
     };
 }
 
+fn renameFunctionsInternal(tree: fauna.SchemaTree, names_json: []const u8) !void {
+    const parsed = try std.json.parseFromSlice(std.json.Value, std.heap.wasm_allocator, names_json, .{});
+    defer parsed.deinit();
+
+    if (parsed.value != .object) {
+        return error.InvalidNameMap;
+    }
+
+    var new_func_names = std.StringHashMap([]const u8).init(std.heap.wasm_allocator);
+    defer new_func_names.deinit();
+
+    for (parsed.value.object.keys(), parsed.value.object.values()) |key, value| {
+        if (value != .string) {
+            std.log.warn("json name map field \"{s}\" is expected to be a string, but found a {s}...", .{ key, @tagName(value) });
+            continue;
+        }
+
+        try new_func_names.put(key, value.string);
+    }
+
+    try linker.renameFunctions(std.heap.wasm_allocator, tree, new_func_names);
+}
+
+/// Expects a json object of current func names to new func names.
+pub fn renameFunctions(tree: fauna.SchemaTree, names_json: []const u8) bool {
+    renameFunctionsInternal(tree, names_json) catch |err| {
+        reportError(err);
+        return false;
+    };
+
+    return true;
+}
+
+fn renameDeclarationInternal(tree: fauna.SchemaTree, decl_type: []const u8, decl_name: []const u8, new_name: []const u8) !void {
+    const tag = std.meta.stringToEnum(std.meta.Tag(fauna.SchemaDefinition), decl_type) orelse return error.InvalidDeclarationType;
+
+    switch (tag) {
+        .function => {
+            var new_func_names = std.StringHashMap([]const u8).init(std.heap.wasm_allocator);
+            defer new_func_names.deinit();
+
+            try new_func_names.put(decl_name, new_name);
+            try linker.renameFunctions(std.heap.wasm_allocator, tree, new_func_names);
+        },
+        .collection => try linker.renameCollection(std.heap.wasm_allocator, tree, decl_name, new_name),
+        .role => try linker.renameRole(tree, decl_name, new_name),
+        else => try linker.renameDeclaration(tree, tag, decl_name, new_name),
+    }
+}
+
+/// Renames a declaration. References to functions, collections and roles are
+/// updated as well.
+pub fn renameDeclaration(tree: fauna.SchemaTree, decl_type: []const u8, decl_name: []const u8, new_name: []const u8) bool {
+    renameDeclarationInternal(tree, decl_type, decl_name, new_name) catch |err| {
+        reportError(err);
+        return false;
+    };
+
+    return true;
+}
+
 fn mergeRolesInternal(tree: *fauna.SchemaTree) !void {
     return merger.mergeRoles(std.heap.wasm_allocator, tree);
 }
@@ -155,7 +333,7 @@ fn mergeRolesInternal(tree: *fauna.SchemaTree) !void {
 pub fn mergeRoles(tree: fauna.SchemaTree) ?fauna.SchemaTree {
     var copy = tree;
     mergeRolesInternal(&copy) catch |err| {
-        std.debug.print("Error: {any}\n", .{err});
+        reportError(err);
         return null;
     };
     return copy;
@@ -167,7 +345,7 @@ fn mergeSchemasInternal(trees: []const fauna.SchemaTree) !fauna.SchemaTree {
 
 pub fn mergeSchemas(a: fauna.SchemaTree, b: fauna.SchemaTree) ?fauna.SchemaTree {
     return mergeSchemasInternal(&.{ a, b }) catch |err| {
-        std.debug.print("Error: {any}\n", .{err});
+        reportError(err);
         return null;
     };
 }
@@ -182,7 +360,7 @@ pub fn sortSchemaTree(tree: fauna.SchemaTree) void {
     }
 }
 
-fn filterSchemaTreeByTypeInternal(schema: fauna.SchemaTree, tag: std.meta.Tag(fauna.SchemaDefinition)) !fauna.SchemaTree {
+fn filterSchemaTreeInternal(schema: fauna.SchemaTree, tag: std.meta.Tag(fauna.SchemaDefinition), decl_name: ?[]const u8) !fauna.SchemaTree {
     var new_decls = try std.ArrayList(fauna.SchemaDefinition).initCapacity(schema.allocator, (schema.declarations orelse &.{}).len);
     errdefer {
         for (new_decls.items) |decl| {
@@ -194,9 +372,17 @@ fn filterSchemaTreeByTypeInternal(schema: fauna.SchemaTree, tag: std.meta.Tag(fa
 
     if (schema.declarations) |decls| {
         for (decls) |decl| {
-            if (std.meta.activeTag(decl) == tag) {
-                new_decls.appendAssumeCapacity(try decl.dupe(schema.allocator));
+            if (std.meta.activeTag(decl) != tag) {
+                continue;
+            }
+
+            if (decl_name) |name| {
+                if (!std.mem.eql(u8, decl.name(), name)) {
+                    continue;
+                }
             }
+
+            new_decls.appendAssumeCapacity(try decl.dupe(schema.allocator));
         }
     }
 
@@ -209,12 +395,27 @@ fn filterSchemaTreeByTypeInternal(schema: fauna.SchemaTree, tag: std.meta.Tag(fa
 
 pub fn filterSchemaTreeByType(schema: fauna.SchemaTree, decl_type: []const u8) ?fauna.SchemaTree {
     if (std.meta.stringToEnum(std.meta.Tag(fauna.SchemaDefinition), decl_type)) |tag| {
-        return filterSchemaTreeByTypeInternal(schema, tag) catch |err| {
-            std.debug.print("Error: {any}\n", .{err});
+        return filterSchemaTreeInternal(schema, tag, null) catch |err| {
+            reportError(err);
+            return null;
+        };
+    } else {
+        std.debug.print("Error: invalid type {s} (valid types are access_provider, collection, role and function)\n", .{decl_type});
+        recordError(error.InvalidDeclarationType, null, null);
+    }
+
+    return null;
+}
+
+pub fn filterSchemaTreeByName(schema: fauna.SchemaTree, decl_type: []const u8, decl_name: []const u8) ?fauna.SchemaTree {
+    if (std.meta.stringToEnum(std.meta.Tag(fauna.SchemaDefinition), decl_type)) |tag| {
+        return filterSchemaTreeInternal(schema, tag, decl_name) catch |err| {
+            reportError(err);
             return null;
         };
     } else {
         std.debug.print("Error: invalid type {s} (valid types are access_provider, collection, role and function)\n", .{decl_type});
+        recordError(error.InvalidDeclarationType, null, null);
     }
 
     return null;
@@ -248,7 +449,7 @@ pub fn removeSchemaTreeDeclaration(tree: fauna.SchemaTree, decl_type: []const u8
 /// Removes references to a resource from all role declarations.
 pub fn removeSchemaTreeRolesResource(tree: fauna.SchemaTree, member_type: []const u8, resource_name: []const u8) bool {
     const member_type_tag = std.meta.stringToEnum(std.meta.Tag(fauna.SchemaDefinition.Role.Member), member_type) orelse {
-        std.debug.print("Error: {any}\n", .{error.BadMemberType});
+        reportError(error.BadMemberType);
         return false;
     };
 
@@ -327,7 +528,185 @@ fn listSchemaTreeDeclarationsInternal(allocator: std.mem.Allocator, tree: fauna.
 
 pub fn listSchemaTreeDeclarations(tree: fauna.SchemaTree) ?[]const u8 {
     return listSchemaTreeDeclarationsInternal(std.heap.wasm_allocator, tree) catch |err| {
-        std.debug.print("Error: {any}\n", .{err});
+        reportError(err);
+        return null;
+    };
+}
+
+fn inspectDeclarationInternal(tree: fauna.SchemaTree, decl_type: []const u8, decl_name: []const u8) ![]const u8 {
+    const tag = std.meta.stringToEnum(std.meta.Tag(fauna.SchemaDefinition), decl_type) orelse return error.InvalidDeclarationType;
+
+    var buf = std.ArrayList(u8).init(std.heap.wasm_allocator);
+    errdefer buf.deinit();
+
+    try inspect.printDeclaration(std.heap.wasm_allocator, buf.writer(), tree, tag, decl_name);
+
+    return buf.toOwnedSlice();
+}
+
+/// Returns the details of a declaration as json, or `null` encoded as json if
+/// the declaration does not exist.
+pub fn inspectDeclaration(tree: fauna.SchemaTree, decl_type: []const u8, decl_name: []const u8) ?[]const u8 {
+    return inspectDeclarationInternal(tree, decl_type, decl_name) catch |err| {
+        reportError(err);
+        return null;
+    };
+}
+
+fn printCanonicalDeclarationsInternal(allocator: std.mem.Allocator, tree: fauna.SchemaTree) ![]const u8 {
+    var buf = std.ArrayList(u8).init(allocator);
+    errdefer buf.deinit();
+
+    var content = std.ArrayList(u8).init(allocator);
+    defer content.deinit();
+
+    var stream = std.json.writeStream(buf.writer(), .{});
+    try stream.beginArray();
+    if (tree.declarations) |decls| {
+        for (decls, 0..) |decl, i| {
+            // borrow the declaration to print it on its own
+            const single: fauna.SchemaTree = .{
+                .allocator = tree.allocator,
+                .declarations = decls[i .. i + 1],
+            };
+
+            content.clearRetainingCapacity();
+            try single.printCanonical(content.writer().any());
+
+            try stream.beginObject();
+            try stream.objectField("type");
+            try stream.write(@tagName(decl));
+            try stream.objectField("name");
+            try stream.write(decl.name());
+            try stream.objectField("content");
+            try stream.write(content.items);
+            try stream.endObject();
+        }
+    }
+
+    try stream.endArray();
+
+    return buf.toOwnedSlice();
+}
+
+pub fn printCanonicalDeclarations(tree: fauna.SchemaTree) ?[]const u8 {
+    return printCanonicalDeclarationsInternal(std.heap.wasm_allocator, tree) catch |err| {
+        reportError(err);
+        return null;
+    };
+}
+
+fn printNormalizedFunctionsInternal(allocator: std.mem.Allocator, tree: fauna.SchemaTree) ![]const u8 {
+    // the copy is renamed, so the schema stays as it is
+    var copy = try tree.dupe(allocator);
+    defer copy.deinit();
+
+    var buf = std.ArrayList(u8).init(allocator);
+    errdefer buf.deinit();
+
+    var content = std.ArrayList(u8).init(allocator);
+    defer content.deinit();
+
+    var stream = std.json.writeStream(buf.writer(), .{});
+    try stream.beginObject();
+    if (copy.declarations) |decls| {
+        for (decls, 0..) |*decl, i| {
+            if (decl.* != .function) {
+                continue;
+            }
+
+            try linker.normalizeBoundNames(allocator, copy.allocator, &decl.function);
+
+            const single: fauna.SchemaTree = .{
+                .allocator = copy.allocator,
+                .declarations = decls[i .. i + 1],
+            };
+
+            content.clearRetainingCapacity();
+            try single.printCanonical(content.writer().any());
+
+            try stream.objectField(decl.name());
+            try stream.write(content.items);
+        }
+    }
+
+    try stream.endObject();
+
+    return buf.toOwnedSlice();
+}
+
+/// Returns a json object of function names to their canonical text, with
+/// parameters and variables renamed by the order they are bound in.
+pub fn printNormalizedFunctions(tree: fauna.SchemaTree) ?[]const u8 {
+    return printNormalizedFunctionsInternal(std.heap.wasm_allocator, tree) catch |err| {
+        reportError(err);
+        return null;
+    };
+}
+
+fn findFunctionCyclesInternal(allocator: std.mem.Allocator, tree: fauna.SchemaTree) ![]const u8 {
+    const cycles = try linker.findFunctionCycles(allocator, tree);
+    defer {
+        for (cycles) |cycle| {
+            allocator.free(cycle);
+        }
+
+        allocator.free(cycles);
+    }
+
+    var buf = std.ArrayList(u8).init(allocator);
+    errdefer buf.deinit();
+
+    var stream = std.json.writeStream(buf.writer(), .{});
+    try stream.write(cycles);
+
+    return buf.toOwnedSlice();
+}
+
+pub fn findFunctionCycles(tree: fauna.SchemaTree) ?[]const u8 {
+    return findFunctionCyclesInternal(std.heap.wasm_allocator, tree) catch |err| {
+        reportError(err);
+        return null;
+    };
+}
+
+fn getFunctionReferencesInternal(allocator: std.mem.Allocator, tree: fauna.SchemaTree) ![]const u8 {
+    const references = try linker.findFunctionReferences(allocator, tree);
+    defer {
+        for (references) |refs| {
+            refs.deinit(allocator);
+        }
+
+        allocator.free(references);
+    }
+
+    var buf = std.ArrayList(u8).init(allocator);
+    errdefer buf.deinit();
+
+    var stream = std.json.writeStream(buf.writer(), .{});
+    try stream.beginArray();
+    for (references) |refs| {
+        try stream.beginObject();
+        try stream.objectField("type");
+        try stream.write(@tagName(refs.decl.*));
+        try stream.objectField("name");
+        try stream.write(refs.decl.name());
+        try stream.objectField("functions");
+        try stream.write(refs.functions);
+        try stream.objectField("undeclaredCalls");
+        try stream.write(refs.undeclared_calls);
+        try stream.endObject();
+    }
+    try stream.endArray();
+
+    return buf.toOwnedSlice();
+}
+
+/// Returns a json array of the functions referenced and the undeclared names
+/// called by each declaration.
+pub fn getFunctionReferences(tree: fauna.SchemaTree) ?[]const u8 {
+    return getFunctionReferencesInternal(std.heap.wasm_allocator, tree) catch |err| {
+        reportError(err);
         return null;
     };
 }
@@ -340,22 +719,19 @@ pub fn getSchemaTreeLength(tree: fauna.SchemaTree) usize {
     return 0;
 }
 
-fn parseSchemaTreeInternal(schema: []const u8, filename: ?[]const u8) !fauna.SchemaTree {
+pub fn parseSchemaTree(schema: []const u8, filename: ?[]const u8) ?fauna.SchemaTree {
     var stream = std.io.fixedBufferStream(schema);
+    var diagnostics: fauna.Diagnostics = .{};
 
-    return try fauna.SchemaTree.parse(std.heap.wasm_allocator, stream.reader().any(), filename orelse "memory");
-}
-
-pub fn parseSchemaTree(schema: []const u8, filename: ?[]const u8) ?fauna.SchemaTree {
-    return parseSchemaTreeInternal(schema, filename) catch |err| {
-        std.debug.print("Error: {any}\n", .{err});
+    return fauna.SchemaTree.parseWithDiagnostics(std.heap.wasm_allocator, stream.reader().any(), filename orelse "memory", &diagnostics) catch |err| {
+        recordError(err, filename, diagnostics);
         return null;
     };
 }
 
 pub fn cloneSchemaTree(tree: fauna.SchemaTree) ?fauna.SchemaTree {
     return tree.dupe(std.heap.wasm_allocator) catch |err| {
-        std.debug.print("Error: {any}\n", .{err});
+        reportError(err);
         return null;
     };
 }
@@ -0,0 +1,149 @@
+import { once } from "node:events";
+import * as fs from "node:fs/promises";
+import * as os from "node:os";
+import * as path from "node:path";
+import { afterEach, beforeAll, beforeEach, describe, expect, it } from "vitest";
+import { initWasm } from "./lib";
+import { type MockSchemaServer, createMockSchemaServer } from "./mock";
+import {
+  type SchemaWatchBuild,
+  type SchemaWatcher,
+  watchSchemas,
+} from "./watch";
+
+let server: MockSchemaServer;
+let tempdir: string;
+let watcher: SchemaWatcher | null;
+
+beforeAll(() => initWasm());
+
+beforeEach(async () => {
+  server = await createMockSchemaServer();
+  tempdir = await fs.mkdtemp(path.join(os.tmpdir(), "fst-watch-"));
+  watcher = null;
+});
+
+afterEach(async () => {
+  await watcher?.close();
+  await server.close();
+  await fs.rm(tempdir, { recursive: true, force: true });
+});
+
+const helpers = `
+function helper(x) {
+  x + 1
+}
+`;
+
+const callers = `
+function caller(x) {
+  helper(x)
+}
+`;
+
+async function nextBuild(): Promise<SchemaWatchBuild> {
+  const [build] = await once(watcher, "build");
+  return build;
+}
+
+async function writeSchemaFiles(files: Record<string, string>): Promise<void> {
+  for (const [filename, content] of Object.entries(files)) {
+    await fs.writeFile(path.join(tempdir, filename), content);
+  }
+}
+
+describe("watchSchemas", () => {
+  it("keeps the last file that parsed until it is fixed", async () => {
+    await writeSchemaFiles({ "helpers.fsl": helpers, "callers.fsl": callers });
+    const fnspath = path.join(tempdir, "fns.json");
+    watcher = watchSchemas(path.join(tempdir, "*.fsl"), {
+      fnspath,
+      debounceMs: 50,
+    });
+
+    let build = await nextBuild();
+    expect(Object.keys(build.mangledNames).sort()).toEqual([
+      "caller",
+      "helper",
+    ]);
+    expect(JSON.parse(await fs.readFile(fnspath, "utf-8"))).toEqual(
+      build.mangledNames,
+    );
+
+    const helpersFile = path.join(tempdir, "helpers.fsl");
+    const failed = once(watcher, "error");
+    await writeSchemaFiles({ "helpers.fsl": "function helper(x) {" });
+    const [, filename] = await failed;
+    expect(filename).toBe(helpersFile);
+    expect(Array.from(watcher.errors.keys())).toEqual([helpersFile]);
+
+    const built = nextBuild();
+    await writeSchemaFiles({
+      "callers.fsl": `${callers}\nfunction other() {\n  helper(1)\n}\n`,
+    });
+    build = await built;
+    expect(build.relinked.sort()).toEqual(["other"]);
+    expect(build.schema.getFunction(build.mangledNames.helper)).not.toBeNull();
+    expect(watcher.schema).toBe(build.schema);
+
+    const fixed = nextBuild();
+    await writeSchemaFiles({ "helpers.fsl": helpers.replace("+ 1", "+ 2") });
+    build = await fixed;
+    expect(watcher.errors.size).toBe(0);
+    expect(build.relinked.sort()).toEqual(["caller", "helper", "other"]);
+  });
+
+  it("emits an error for builds that fail", async () => {
+    await writeSchemaFiles({ "helpers.fsl": helpers });
+    watcher = watchSchemas(path.join(tempdir, "*.fsl"), {
+      mangling: { strategy: "versioned" },
+    });
+
+    const [err, filename] = await once(watcher, "error");
+    expect(err).toBeInstanceOf(Error);
+    expect(filename).toBeNull();
+    expect(watcher.schema).toBeNull();
+  });
+
+  it("pushes every build", async () => {
+    await writeSchemaFiles({ "helpers.fsl": helpers });
+    watcher = watchSchemas(path.join(tempdir, "*.fsl"), {
+      schema: {
+        push: {
+          endpoint: server.endpoint,
+          key: "secret",
+          tempdir,
+          ledger: false,
+        },
+      },
+    });
+
+    const pushed = once(watcher, "pushed");
+    const build = await nextBuild();
+    await pushed;
+    expect(Object.values(server.files).join("\n")).toContain(
+      build.mangledNames.helper,
+    );
+    expect(server.version).toBe(1);
+  });
+
+  it("only relinks changed functions and their callers with a manifest", async () => {
+    await writeSchemaFiles({ "helpers.fsl": `${helpers}\n${callers}` });
+    const manifestpath = path.join(tempdir, "fauna-functions.lock.json");
+    watcher = watchSchemas(path.join(tempdir, "*.fsl"), {
+      manifestpath,
+      debounceMs: 50,
+    });
+
+    let build = await nextBuild();
+    expect(build.relinked.sort()).toEqual(["caller", "helper"]);
+
+    const built = nextBuild();
+    await writeSchemaFiles({
+      "helpers.fsl": `${helpers}\n${callers}\nfunction other() {\n  1\n}\n`,
+    });
+    build = await built;
+    expect(build.relinked).toEqual(["other"]);
+    expect(build.manifestReport?.added).toEqual(["other"]);
+  });
+});
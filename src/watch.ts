@@ -0,0 +1,304 @@
+import { EventEmitter } from "node:events";
+import * as fs from "node:fs/promises";
+import * as chokidar from "chokidar";
+import { IncrementalLinker, type IncrementalLinkTimings } from "./incremental";
+import {
+  pushSchema,
+  pushSchemaToDatabases,
+  type OutputOptions,
+  type PushSchemaResult,
+  type PushSchemaToDatabasesResult,
+} from "./lib";
+import type { LinkManifestReport } from "./manifest";
+import {
+  declarationsInput,
+  linkSchemaFiles,
+  unlessUnchanged,
+  writeSchemaOutputs,
+  type OutputCache,
+  type OutputTimings,
+} from "./outputs";
+import type { Schema } from "./schema";
+
+export interface WatchSchemasOptions extends OutputOptions {
+  /**
+   * Do not push while any schema file fails to parse. The build still uses
+   * the last version of the file that parsed.
+   */
+  skipPushOnError?: boolean;
+
+  /**
+   * Time to wait for further changes before building, defaults to 10ms.
+   */
+  debounceMs?: number;
+}
+
+export interface SchemaWatchBuild {
+  /**
+   * The merged schema, owned by the watcher and only valid until the next
+   * build or until the watcher is closed.
+   */
+  schema: Schema;
+  mangledNames: Record<string, string>;
+
+  /**
+   * Functions whose names were computed again, the others kept the names
+   * from the previous build.
+   */
+  relinked: string[];
+
+  /**
+   * The changes to the link manifest, if `manifestpath` is set.
+   */
+  manifestReport: LinkManifestReport | null;
+  timings: IncrementalLinkTimings & { outputs: OutputTimings };
+}
+
+export interface SchemaWatcherEvents {
+  build: [build: SchemaWatchBuild];
+
+  /**
+   * Emitted for files that fail to parse, with the filename, and for builds
+   * and pushes that fail. As with any `EventEmitter`, an error without a
+   * listener is thrown.
+   */
+  error: [error: unknown, filename: string | null];
+  pushed: [result: PushSchemaResult | PushSchemaToDatabasesResult];
+}
+
+type LinkedSchema = Omit<SchemaWatchBuild, "timings"> & {
+  timings: IncrementalLinkTimings;
+};
+
+function sleep(ms: number): Promise<void> {
+  return new Promise((resolve) => setTimeout(resolve, ms));
+}
+
+function debounce<T extends (...args: unknown[]) => unknown>(
+  f: T,
+  delayMs: number,
+): (...arg: Parameters<T>) => Promise<Awaited<ReturnType<T>>> {
+  let ts = Date.now();
+
+  let started = 0;
+  async function start(
+    ...args: Parameters<T>
+  ): Promise<Awaited<ReturnType<T>>> {
+    while (ts > Date.now()) {
+      await sleep(ts - Date.now());
+    }
+
+    started += 1;
+
+    try {
+      return await f.apply(this, args);
+    } finally {
+      started -= 1;
+    }
+  }
+
+  let currentRun: Promise<Awaited<ReturnType<T>>> | null = null;
+  return function run(...args: Parameters<T>): Promise<Awaited<ReturnType<T>>> {
+    ts = Date.now() + delayMs;
+
+    if (!currentRun || started) {
+      const p = start.apply(this, args);
+      currentRun = p;
+      currentRun.finally(() => {
+        if (currentRun === p) {
+          currentRun = null;
+        }
+      });
+    }
+
+    return currentRun;
+  };
+}
+
+/**
+ * Rebuilds the outputs whenever a schema file changes. Files that fail to
+ * parse are reported and the last version that parsed is used until they
+ * are fixed, so a typo never takes down the watcher.
+ */
+export class SchemaWatcher extends EventEmitter<SchemaWatcherEvents> {
+  readonly #options: WatchSchemasOptions;
+  readonly #watcher: chokidar.FSWatcher;
+  readonly #linker: IncrementalLinker;
+  readonly #cache: OutputCache = new Map();
+  readonly #errors = new Map<string, unknown>();
+  readonly #build: () => Promise<void>;
+  #schema: Schema | null = null;
+
+  constructor(paths: string | string[], options: WatchSchemasOptions = {}) {
+    super();
+
+    this.#options = options;
+    this.#linker = new IncrementalLinker(options.mangling);
+    this.#build = debounce(() => this.#rebuild(), options.debounceMs ?? 10);
+
+    this.#watcher = chokidar.watch(paths);
+    this.#watcher.on("all", (event, id) => {
+      if (event === "addDir" || event === "unlinkDir") {
+        return;
+      }
+
+      this.#handleChange(event, id);
+    });
+  }
+
+  /**
+   * The schema of the last successful build.
+   */
+  public get schema(): Schema | null {
+    return this.#schema;
+  }
+
+  /**
+   * Errors of the files that currently fail to parse, by filename.
+   */
+  public get errors(): ReadonlyMap<string, unknown> {
+    return this.#errors;
+  }
+
+  public async close(): Promise<void> {
+    await this.#watcher.close();
+    this.#schema?.free();
+    this.#schema = null;
+    this.#linker.free();
+  }
+
+  async #handleChange(
+    event: "add" | "change" | "unlink",
+    id: string,
+  ): Promise<void> {
+    let changed: boolean;
+    try {
+      changed =
+        event === "unlink"
+          ? this.#linker.remove(id)
+          : this.#linker.update(id, await fs.readFile(id, "utf-8"));
+      this.#errors.delete(id);
+    } catch (err) {
+      this.#errors.set(id, err);
+      this.emit("error", err, id);
+      return;
+    }
+
+    if (changed) {
+      await this.#build();
+    }
+  }
+
+  async #link(): Promise<LinkedSchema | null> {
+    if (!this.#linker.changed) {
+      return null;
+    }
+
+    // the manifest and versioned names depend on all functions
+    if (
+      this.#options.manifestpath ||
+      this.#options.mangling?.strategy === "versioned"
+    ) {
+      const start = Date.now();
+      const [schema, mangledNames, manifestReport] = await linkSchemaFiles(
+        this.#linker.schemas,
+        this.#options,
+      );
+      this.#linker.reset();
+
+      return {
+        schema,
+        mangledNames,
+        relinked: manifestReport
+          ? [...manifestReport.changed, ...manifestReport.added]
+          : Object.keys(mangledNames),
+        manifestReport,
+        timings: { parseMs: 0, mergeMs: 0, linkMs: Date.now() - start },
+      };
+    }
+
+    return { ...this.#linker.link(), manifestReport: null };
+  }
+
+  async #rebuild(): Promise<void> {
+    let linked: LinkedSchema | null = null;
+    let outputs: OutputTimings;
+    try {
+      linked = await this.#link();
+      if (!linked) {
+        return;
+      }
+
+      outputs = await writeSchemaOutputs(
+        linked.schema,
+        linked.mangledNames,
+        this.#options,
+        this.#cache,
+      );
+    } catch (err) {
+      linked?.schema.free();
+      this.emit("error", err, null);
+      return;
+    }
+
+    this.#schema?.free();
+    this.#schema = linked.schema;
+    this.emit("build", {
+      ...linked,
+      timings: { ...linked.timings, outputs },
+    });
+
+    await this.#push(linked.schema, linked.mangledNames);
+  }
+
+  async #push(schema: Schema, names: Record<string, string>): Promise<void> {
+    const push = this.#options.schema?.push;
+    if (!push || (this.#options.skipPushOnError && this.#errors.size)) {
+      return;
+    }
+
+    // the next build frees the schema, which may happen while pushing
+    const copy = schema.clone();
+
+    // pushes that fail are retried with the next build even if the schema
+    // did not change
+    try {
+      await unlessUnchanged(
+        this.#cache,
+        "push",
+        declarationsInput(copy)(),
+        async () => {
+          const options = { ...push, mangledNames: names };
+          if (!("databases" in options)) {
+            this.emit("pushed", await pushSchema(copy, options));
+            return;
+          }
+
+          const result = await pushSchemaToDatabases(copy, options);
+          this.emit("pushed", result);
+          if (result.failed) {
+            throw new Error(`Failed to push to ${result.failed} databases`);
+          }
+        },
+      );
+    } catch (err) {
+      this.emit("error", err, null);
+    } finally {
+      copy.free();
+    }
+  }
+}
+
+/**
+ * Watches the schema files, writes the outputs on every change and pushes
+ * the schema if `schema.push` is set.
+ *
+ * Subscribe to `build`, `error` and `pushed` to follow progress, and call
+ * `close` to stop watching.
+ */
+export function watchSchemas(
+  paths: string | string[],
+  options?: WatchSchemasOptions,
+): SchemaWatcher {
+  return new SchemaWatcher(paths, options);
+}